@@ -0,0 +1,214 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import chalk from 'chalk';
+import { EventEmitter } from 'node:events';
+import { builds, IBuild, IBuildKind } from './builds.js';
+import { LOGGER, Runtime } from './constants.js';
+import { IDownloadProgress } from './fetch.js';
+import { IFlakyOptions } from './flaky.js';
+import { IInstance, launcher } from './launcher.js';
+import { BisectVerdict, cloneState, createState, getResult, IBisectResult, IBisectState, nextState } from './state.js';
+
+export type { IBuild, IBuildKind, IDownloadProgress, IFlakyOptions, IInstance, BisectVerdict, IBisectResult };
+export { Runtime, Quality, Flavor } from './constants.js';
+
+export interface IBisectSessionOptions {
+
+    /**
+     * Commit hash or `major.minor` version of a released build that
+     * does not reproduce the issue. Defaults to the oldest build.
+     */
+    readonly good?: string;
+
+    /**
+     * Commit hash or `major.minor` version of a released build that
+     * reproduces the issue. Defaults to the latest build.
+     */
+    readonly bad?: string;
+
+    /**
+     * Commit hashes to exclude from bisecting.
+     */
+    readonly exclude?: string[];
+
+    /**
+     * Only bisect over released builds to support older builds.
+     */
+    readonly releasedOnly?: boolean;
+
+    /**
+     * Bisect probabilistically for issues that do not always reproduce.
+     */
+    readonly flaky?: IFlakyOptions;
+
+    /**
+     * Do not log progress to the console, e.g. when reporting
+     * progress from the session events instead. Applies to all
+     * sessions of the process.
+     */
+    readonly quiet?: boolean;
+}
+
+export interface IVerdictProvider {
+
+    /**
+     * Decides whether the launched build is good or bad or should be
+     * skipped. The instance is `undefined` for builds that cannot be
+     * launched directly, e.g. CLIs running in docker. Returning
+     * `undefined` stops bisecting.
+     */
+    provideVerdict(build: IBuild, instance: IInstance | undefined): Promise<BisectVerdict | undefined>;
+}
+
+export interface IBisectSessionEvents {
+    download: [build: IBuild, progress: IDownloadProgress];
+    launch: [build: IBuild];
+    finish: [result: IBisectResult];
+}
+
+/**
+ * A bisect session that is driven by calling `next()` for the build
+ * to test and `mark()` with its verdict until `next()` resolves to
+ * `undefined`, or by `run()` with a verdict provider.
+ */
+export class BisectSession extends EventEmitter<IBisectSessionEvents> {
+
+    private state: IBisectState;
+    private readonly history: IBisectState[] = [];
+
+    constructor(readonly kind: IBuildKind, readonly builds: IBuild[], flaky?: IFlakyOptions) {
+        super();
+
+        if (builds.length < 2) {
+            throw new Error(`Bisect needs at least 2 builds to work, but found ${chalk.green(builds.length)}.`);
+        }
+
+        this.state = createState(builds.length, flaky);
+    }
+
+    /**
+     * The build to test next or `undefined` once bisecting finished.
+     */
+    get current(): IBuild | undefined {
+        return this.builds[this.state.currentIndex];
+    }
+
+    get isFinished(): boolean {
+        return !this.current;
+    }
+
+    /**
+     * The result once bisecting finished.
+     */
+    get result(): IBisectResult | undefined {
+        return this.isFinished ? getResult(this.state, this.builds) : undefined;
+    }
+
+    /**
+     * Downloads the build to test next and resolves to it
+     * or to `undefined` once bisecting finished.
+     */
+    async next(): Promise<IBuild | undefined> {
+        const build = this.current;
+        if (!build) {
+            return undefined;
+        }
+
+        if (build.runtime !== Runtime.WebRemote) {
+            await builds.downloadAndExtractBuild(build, { forceReDownload: false, onDownloadProgress: progress => this.emit('download', build, progress) });
+        }
+
+        return build;
+    }
+
+    /**
+     * Launches the build to test next. The caller is responsible
+     * to stop the instance.
+     */
+    async launch(): Promise<IInstance | undefined> {
+        const build = this.current;
+        if (!build) {
+            throw new Error('Unable to launch a build because bisecting finished.');
+        }
+
+        this.emit('launch', build);
+
+        return launcher.launch(build, { forceReDownload: false, onDownloadProgress: progress => this.emit('download', build, progress) });
+    }
+
+    /**
+     * Records the verdict for the build to test next.
+     */
+    mark(verdict: BisectVerdict): void {
+        if (this.isFinished) {
+            throw new Error('Unable to mark a build because bisecting finished.');
+        }
+
+        this.history.push(cloneState(this.state));
+
+        const finished = nextState(this.state, verdict);
+        if (finished) {
+            this.emit('finish', getResult(this.state, this.builds));
+        }
+    }
+
+    /**
+     * Reverts the last verdict. Returns `false` if
+     * there was nothing to undo.
+     */
+    undo(): boolean {
+        const state = this.history.pop();
+        if (!state) {
+            return false;
+        }
+
+        this.state = state;
+
+        return true;
+    }
+
+    /**
+     * Launches each build to test and asks the verdict provider
+     * for its verdict until bisecting finished. Resolves to
+     * `undefined` if the provider stopped bisecting.
+     */
+    async run(provider: IVerdictProvider): Promise<IBisectResult | undefined> {
+        let build: IBuild | undefined;
+        while (build = await this.next()) {
+            const instance = await this.launch();
+
+            let verdict: BisectVerdict | undefined;
+            try {
+                verdict = await provider.provideVerdict(build, instance);
+            } finally {
+                await instance?.stop();
+            }
+
+            if (!verdict) {
+                return undefined;
+            }
+
+            this.mark(verdict);
+        }
+
+        return this.result;
+    }
+}
+
+/**
+ * Creates a session to bisect the released builds of
+ * the build kind between the good and bad build.
+ */
+export async function createBisectSession(kind: IBuildKind, options?: IBisectSessionOptions): Promise<BisectSession> {
+    LOGGER.quiet = !!options?.quiet;
+
+    const goodCommit = await builds.resolveCommit(kind, options?.good);
+    const badCommit = await builds.resolveCommit(kind, options?.bad);
+
+    const buildsRange = await builds.fetchBuilds(kind, goodCommit, badCommit, options?.releasedOnly, options?.exclude);
+
+    return new BisectSession(kind, buildsRange, options?.flaky);
+}
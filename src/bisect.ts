@@ -7,69 +7,520 @@ import prompts from 'prompts';
 import chalk from 'chalk';
 import open from 'open';
 import { rmSync } from 'node:fs';
-import { builds, IBuild, IBuildKind } from './builds.js';
-import { logTroubleshoot, USER_DATA_FOLDER, LOGGER, Runtime, Flavor } from './constants.js';
+import { builds, formatBuildInfo, IBuild, IBuildInfo, IBuildKind } from './builds.js';
+import { logTroubleshoot, USER_DATA_FOLDER, LOGGER, Runtime, Flavor, CONFIG, ITerms, isDefaultTerms, Quality, arch } from './constants.js';
 import { launcher } from './launcher.js';
+import { git, IChangedArea, ICommit, ICommitFilter } from './git.js';
 import { cleanUserDataDir } from './files.js';
+import { storage } from './storage.js';
+import { bisectLog } from './log.js';
+import { IFlakyOptions } from './flaky.js';
+import { progressView } from './progress.js';
+import { bisectReport, IBisectReportBuild } from './report.js';
+import { BisectVerdict, cloneState, computeConfidence, createState, getNextIndices, getResult, IBisectResult, IBisectState, isContradiction, nextState } from './state.js';
+import { prefetcher } from './prefetch.js';
 
 export enum BisectResponse {
     Good = 1,
     Bad,
+    Skip,
+    Undo,
     Quit
 }
 
-interface IBisectState {
-    currentChunk: number;
-    currentIndex: number;
+interface IBisectAnswer {
+    readonly commit: string;
+    readonly response: BisectResponse.Good | BisectResponse.Bad | BisectResponse.Skip;
+
+    /**
+     * The state before the answer was given
+     * to support undoing the answer.
+     */
+    readonly state: IBisectState;
+}
+
+interface IBisectSession {
+    readonly kind: IBuildKind;
+    readonly goodCommit: string;
+    readonly badCommit: string;
+    readonly releasedOnly: boolean;
+    readonly excludeCommits: string[];
+    readonly terms: ITerms;
+    readonly flaky: IFlakyOptions | undefined;
+    readonly buildsCount: number;
+    state: IBisectState;
+    readonly answers: IBisectAnswer[];
+    readonly timestamp: number;
+
+    /**
+     * Quality to narrow down to once bisecting released
+     * stable builds finished when running with `--stable-first`.
+     */
+    readonly nextQuality?: Quality;
+
+    /**
+     * Median startup time of the good build when
+     * bisecting with `--perf-regression`.
+     */
+    perfBaseline?: number;
 }
 
 class Bisecter {
 
-    async start({ runtime, quality, flavor }: IBuildKind, goodCommitOrVersion?: string, badCommitOrVersion?: string, releasedOnly?: boolean, excludeCommits?: string[]): Promise<void> {
+    private static readonly SESSION_STORAGE_KEY = 'bisectSession';
 
-        // Resolve commits from input
-        const { goodCommit, badCommit } = await this.resolveCommits({ runtime, quality, flavor }, goodCommitOrVersion, badCommitOrVersion);
+    async start(kind: IBuildKind, goodCommitOrVersion?: string, badCommitOrVersion?: string, releasedOnly?: boolean, excludeCommits?: string[], stableFirst?: boolean): Promise<void> {
 
-        // Get builds to bisect
-        const buildsRange = await builds.fetchBuilds({ runtime, quality, flavor }, goodCommit, badCommit, releasedOnly, excludeCommits);
+        // Resume an unfinished session if any or start a new one,
+        // bisecting released stable builds first if requested
+        const resumed = await this.resumeSession(kind);
+        const { session, buildsRange } = resumed ?? (stableFirst ?
+            await this.createSession({ ...kind, quality: Quality.Stable }, goodCommitOrVersion, badCommitOrVersion, true, excludeCommits, kind.quality) :
+            await this.createSession(kind, goodCommitOrVersion, badCommitOrVersion, releasedOnly, excludeCommits)
+        );
+
+        if (session?.nextQuality) {
+            LOGGER.log(`${chalk.gray('[build]')} bisecting released ${chalk.green(session.kind.quality)} builds first, then ${chalk.green(session.nextQuality)} builds in between`);
+        }
 
-        LOGGER.log(`${chalk.gray('[build]')} total ${chalk.green(buildsRange.length)} builds with roughly ${chalk.green(Math.round(Math.log2(buildsRange.length)))} steps`);
+        await this.logRange(session, buildsRange);
 
-        let goodBuild: IBuild | undefined = undefined;
-        let badBuild: IBuild | undefined = undefined;
-        let build: IBuild;
-        let quit = false;
+        if (!session) {
+            return this.finishBisect(undefined, undefined);
+        }
+
+        await bisectLog.writeSession(session, session.answers.map(answer => ({ commit: answer.commit, verdict: this.toVerdict(answer.response) })), resumed ? 'resume' : 'start');
+
+        return this.bisect(session, buildsRange);
+    }
+
+    async replay(path: string): Promise<void> {
+        const log = await bisectLog.read(path);
+
+        LOGGER.log(`${chalk.gray('[build]')} replaying ${chalk.green(log.entries.length)} entries from ${chalk.green(path)}`);
+
+        if (log.terms) {
+            CONFIG.terms = log.terms;
+        }
 
+        if (log.flaky) {
+            CONFIG.flaky = log.flaky;
+        }
+
+        const buildsRange = await builds.fetchBuilds(log.kind, log.goodCommit, log.badCommit, log.releasedOnly, log.excludeCommits);
         if (buildsRange.length < 2) {
-            return this.finishBisect(badBuild, goodBuild);
+            return this.finishBisect(undefined, undefined);
         }
 
-        // Start bisecting via binary search
+        const session = this.newSession(log.kind, buildsRange, log.releasedOnly, log.excludeCommits, log.nextQuality);
+        for (const { verdict, commit } of log.entries) {
+            if (verdict === 'undo') {
+                const answer = session.answers.pop();
+                if (answer) {
+                    session.state = answer.state;
+                }
+
+                continue;
+            }
+
+            const index = buildsRange.findIndex(build => build.commit === commit);
+            if (index === -1) {
+                throw new Error(`Commit ${chalk.green(commit)} of the bisect log is not part of the builds to bisect.`);
+            }
+
+            if (isContradiction(session.state, verdict, index)) {
+                throw new Error(`Commit ${chalk.green(commit)} cannot be ${verdict} because it contradicts previous entries of the bisect log.`);
+            }
+
+            session.answers.push({ commit, response: this.fromVerdict(verdict), state: cloneState(session.state) });
+            nextState(session.state, verdict, index);
+        }
+
+        await storage.store(Bisecter.SESSION_STORAGE_KEY, session);
+        await bisectLog.writeSession(session, session.answers.map(answer => ({ commit: answer.commit, verdict: this.toVerdict(answer.response) })), 'replay');
+
+        return this.bisect(session, buildsRange);
+    }
 
-        const state = { currentChunk: buildsRange.length, currentIndex: 0 };
-        this.nextState(state, BisectResponse.Bad /* try older */);
+    private async bisect(session: IBisectSession, buildsRange: IBuild[]): Promise<void> {
+
+        // Measure the good build first when classifying
+        // builds by a performance regression
+        if (typeof CONFIG.perfRegression === 'number' && typeof session.perfBaseline !== 'number') {
+            session.perfBaseline = await this.measurePerformanceBaseline(buildsRange[buildsRange.length - 1]);
+            await storage.store(Bisecter.SESSION_STORAGE_KEY, session);
+        }
+
+        let perfThreshold = CONFIG.perfThreshold;
+        if (typeof CONFIG.perfRegression === 'number' && typeof session.perfBaseline === 'number') {
+            perfThreshold = Math.round(session.perfBaseline * (1 + CONFIG.perfRegression));
+            LOGGER.log(`${chalk.gray('[perf]')} builds slower than ${chalk.green(`${perfThreshold}ms`)} (baseline ${chalk.green(`${session.perfBaseline}ms`)} + ${chalk.green(`${Math.round(CONFIG.perfRegression * 100)}%`)}) are ${CONFIG.terms.new}`);
+        }
+
+        let build: IBuild;
 
         // Go over next builds for as long as we are not done...
-        while (build = buildsRange[state.currentIndex]) {
-            const response = await this.tryBuild(build, { isBisecting: true, forceReDownload: false });
-            if (response === BisectResponse.Bad) {
-                badBuild = build;
-            } else if (response === BisectResponse.Good) {
-                goodBuild = build;
-            } else {
-                quit = true;
-                break;
+        while (build = buildsRange[session.state.currentIndex]) {
+            await this.renderProgress(session, buildsRange, build);
+
+            // Download the builds to try next in the background
+            // while this build is tested, depending on the answer
+            await prefetcher.take(build);
+            prefetcher.prefetch(getNextIndices(session.state).map(index => buildsRange[index]));
+
+            const response = await this.tryBuild(build, { isBisecting: true, forceReDownload: false, canUndo: session.answers.length > 0, perfThreshold });
+            if (response === BisectResponse.Quit) {
+                await prefetcher.cancel();
+
+                // Unattended sessions are never resumed
+                if (this.isUnattended()) {
+                    await storage.remove(Bisecter.SESSION_STORAGE_KEY);
+                    LOGGER.log(`${chalk.gray('[build]')} bisect session aborted.`);
+                    return;
+                }
+
+                LOGGER.log(`${chalk.gray('[build]')} bisect session saved, run again with the same build kind to resume.`);
+                return;
             }
 
-            const finished = this.nextState(state, response);
+            // Undo: restore the state before the last answer
+            // which brings back the previous build to try
+            if (response === BisectResponse.Undo) {
+                const answer = session.answers.pop();
+                if (answer) {
+                    LOGGER.log(`${chalk.gray('[build]')} undoing last answer for ${chalk.green(answer.commit)}`);
+                    session.state = answer.state;
+                    await storage.store(Bisecter.SESSION_STORAGE_KEY, session);
+                    await bisectLog.writeEntry({ commit: answer.commit, verdict: 'undo' });
+                }
+
+                continue;
+            }
+
+            session.answers.push({ commit: build.commit, response, state: cloneState(session.state) });
+            await bisectLog.writeEntry({ commit: build.commit, verdict: this.toVerdict(response) });
+
+            const finished = nextState(session.state, this.toVerdict(response));
             if (finished) {
                 break;
             }
+
+            await storage.store(Bisecter.SESSION_STORAGE_KEY, session);
+        }
+
+        await prefetcher.cancel();
+        await storage.remove(Bisecter.SESSION_STORAGE_KEY);
+
+        const result = getResult(session.state, buildsRange);
+        const { badBuild, goodBuild, skippedBuilds, confidence } = result;
+
+        // Continue with the builds between the last good and
+        // first bad release when bisecting stable builds first
+        if (session.nextQuality) {
+            const next = await this.createNextStageSession(session, badBuild, goodBuild);
+            if (next) {
+                return this.bisect(next.session, next.buildsRange);
+            }
+        }
+
+        let changedAreas: IChangedArea[] | undefined = undefined;
+        if (CONFIG.commits && badBuild && goodBuild) {
+            changedAreas = await this.fetchChangedAreas(goodBuild, badBuild);
+        }
+
+        if (CONFIG.report) {
+            await this.writeReport(CONFIG.report, session, buildsRange, result, changedAreas);
+        }
+
+        return this.finishBisect(badBuild, goodBuild, skippedBuilds, confidence, changedAreas);
+    }
+
+    private async writeReport(path: string, session: IBisectSession, buildsRange: IBuild[], { badBuild, goodBuild, confidence }: IBisectResult, changedAreas: IChangedArea[] | undefined): Promise<void> {
+        try {
+            await bisectReport.write(path, {
+                kind: session.kind,
+                platform: `${process.platform}-${arch}`,
+                terms: CONFIG.terms,
+                badBuild: badBuild ? await this.toReportBuild(badBuild) : undefined,
+                goodBuild: goodBuild ? await this.toReportBuild(goodBuild) : undefined,
+                confidence,
+                steps: session.answers.length,
+                tested: session.answers.map(answer => ({ commit: answer.commit, verdict: this.toVerdict(answer.response) })),
+                skipped: [...session.state.skipped].sort((a, b) => a - b).map(index => buildsRange[index].commit),
+                excluded: session.excludeCommits,
+                compareUrl: badBuild && goodBuild ? this.getCompareUrl(goodBuild, badBuild) : undefined,
+                changedAreas,
+                args: CONFIG.args
+            });
+        } catch (error) {
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.red(`unable to write bisect report: ${error}`)}`);
+        }
+    }
+
+    private async toReportBuild(build: IBuild): Promise<IBisectReportBuild> {
+        return { commit: build.commit, productVersion: (await this.fetchBuildInfo(build))?.productVersion };
+    }
+
+    private async fetchBuildInfo(build: IBuild): Promise<IBuildInfo | undefined> {
+        try {
+            return await builds.fetchBuildInfo(build);
+        } catch (error) {
+            LOGGER.trace(`${chalk.gray('[build]')} failed to fetch build info of ${chalk.green(build.commit)}: ${error}`);
+
+            return undefined;
+        }
+    }
+
+    private getCompareUrl(goodBuild: IBuild, badBuild: IBuild): string {
+        return `https://github.com/microsoft/vscode/compare/${goodBuild.commit}...${badBuild.commit}`;
+    }
+
+    private async createNextStageSession(session: IBisectSession, badRelease: IBuild | undefined, goodRelease: IBuild | undefined): Promise<{ session: IBisectSession, buildsRange: IBuild[] } | undefined> {
+        if (!session.nextQuality || !badRelease || !goodRelease) {
+            return undefined;
+        }
+
+        const kind: IBuildKind = { runtime: session.kind.runtime, quality: session.nextQuality, flavor: session.kind.flavor };
+
+        try {
+            const goodVersion = this.toMajorMinor((await builds.fetchBuildInfo(goodRelease)).productVersion);
+            const badVersion = this.toMajorMinor((await builds.fetchBuildInfo(badRelease)).productVersion);
+
+            LOGGER.log(`${chalk.gray('[build]')} release ${chalk.green(badVersion)} is the first ${CONFIG.terms.new} release after ${chalk.green(goodVersion)}`);
+
+            if (goodVersion === badVersion) {
+                LOGGER.log(`${chalk.gray('[build]')} ${chalk.yellow(`Both releases are from the same milestone, unable to narrow down to ${kind.quality} builds.`)}`);
+
+                return undefined;
+            }
+
+            LOGGER.log(`${chalk.gray('[build]')} narrowing down to ${chalk.green(kind.quality)} builds between ${chalk.green(goodVersion)} and ${chalk.green(badVersion)}...`);
+
+            const { goodCommit, badCommit } = await this.resolveCommits(kind, goodVersion, badVersion);
+            const buildsRange = await builds.fetchBuilds(kind, goodCommit, badCommit, false, session.excludeCommits);
+
+            if (buildsRange.length < 2) {
+                LOGGER.log(`${chalk.gray('[build]')} ${chalk.yellow(`No ${kind.quality} builds found between both releases.`)}`);
+
+                return undefined;
+            }
+
+            const nextSession = this.newSession(kind, buildsRange, false, session.excludeCommits, undefined, session.flaky);
+            await this.logRange(nextSession, buildsRange);
+            await storage.store(Bisecter.SESSION_STORAGE_KEY, nextSession);
+            await bisectLog.writeSession(nextSession, [], 'start');
+
+            return { session: nextSession, buildsRange };
+        } catch (error) {
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.red(`unable to narrow down to ${kind.quality} builds: ${error}`)}`);
+
+            return undefined;
+        }
+    }
+
+    private async renderProgress(session: IBisectSession, buildsRange: IBuild[], build: IBuild): Promise<void> {
+        const info = await this.fetchBuildInfo(build);
+
+        progressView.render({
+            builds: buildsRange,
+            badIndex: session.state.badIndex,
+            goodIndex: session.state.goodIndex,
+            currentIndex: session.state.currentIndex,
+            skipped: session.state.skipped,
+            excludedCount: session.excludeCommits.length,
+            answers: session.answers.map(answer => ({ commit: answer.commit, verdict: this.toVerdict(answer.response) })),
+            info,
+            confidence: computeConfidence(session.state)
+        }, { clear: !this.isUnattended() });
+    }
+
+    private toMajorMinor(version: string): string {
+        return version.split('.').slice(0, 2).join('.');
+    }
+
+    private async logRange(session: IBisectSession | undefined, buildsRange: IBuild[]): Promise<void> {
+        if (buildsRange.length > 1) {
+            const oldest = buildsRange[buildsRange.length - 1];
+            const newest = buildsRange[0];
+            const infos = await builds.fetchBuildInfos([oldest, newest]);
+            LOGGER.log(`${chalk.gray('[build]')} range from ${CONFIG.terms.old} ${chalk.green(oldest.commit)}${formatBuildInfo(infos.get(oldest.commit))} to ${CONFIG.terms.new} ${chalk.green(newest.commit)}${formatBuildInfo(infos.get(newest.commit))}`);
+
+            // Fetch versions and dates of the other builds in the
+            // background so that they are ready once needed
+            builds.fetchBuildInfos(buildsRange);
+        }
+
+        if (session?.state.flaky) {
+            LOGGER.log(`${chalk.gray('[build]')} total ${chalk.green(buildsRange.length)} builds, testing until a build is the first ${CONFIG.terms.new} build with ${chalk.green(`${Math.round(session.state.flaky.confidence * 100)}%`)} confidence`);
+        } else {
+            LOGGER.log(`${chalk.gray('[build]')} total ${chalk.green(buildsRange.length)} builds with roughly ${chalk.green(Math.round(Math.log2(buildsRange.length)))} steps`);
+        }
+    }
+
+    private async measurePerformanceBaseline(goodBuild: IBuild): Promise<number> {
+        LOGGER.log(`${chalk.gray('[perf]')} measuring baseline of ${CONFIG.terms.old} build ${chalk.green(goodBuild.commit)}...`);
+
+        const instance = await launcher.launch(goodBuild, { forceReDownload: false });
+        await instance?.stop();
+
+        if (typeof instance?.ellapsed !== 'number') {
+            throw new Error(`Unable to measure the performance baseline of ${CONFIG.terms.old} build ${chalk.green(goodBuild.commit)}.`);
+        }
+
+        return instance.ellapsed;
+    }
+
+    private isUnattended(): boolean {
+        return !!CONFIG.run || typeof CONFIG.perfThreshold === 'number' || typeof CONFIG.perfRegression === 'number';
+    }
+
+    private async createSession(kind: IBuildKind, goodCommitOrVersion?: string, badCommitOrVersion?: string, releasedOnly?: boolean, excludeCommits?: string[], nextQuality?: Quality): Promise<{ session: IBisectSession | undefined, buildsRange: IBuild[] }> {
+
+        // Ask for the range unless provided or running unattended
+        const useDefaultTerms = isDefaultTerms(CONFIG.terms);
+        if (!badCommitOrVersion && !this.isUnattended()) {
+            badCommitOrVersion = await this.promptForCommitOrVersion('bad', useDefaultTerms ?
+                'Commit, version or date of released build that reproduces the issue (leave empty to pick the latest build)' :
+                `Commit, version or date of released build that is ${CONFIG.terms.new} (leave empty to pick the latest build)`
+            );
+        }
+
+        if (!goodCommitOrVersion && !this.isUnattended()) {
+            goodCommitOrVersion = await this.promptForCommitOrVersion('good', useDefaultTerms ?
+                'Commit, version or date of released build that does not reproduce the issue (leave empty to pick the oldest build)' :
+                `Commit, version or date of released build that is ${CONFIG.terms.old} (leave empty to pick the oldest build)`
+            );
+        }
+
+        // Resolve commits from input
+        const { goodCommit, badCommit } = await this.resolveCommits(kind, goodCommitOrVersion, badCommitOrVersion);
+
+        // Get builds to bisect
+        const buildsRange = await builds.fetchBuilds(kind, goodCommit, badCommit, releasedOnly, excludeCommits);
+        if (buildsRange.length < 2) {
+            return { session: undefined, buildsRange };
+        }
+
+        const session = this.newSession(kind, buildsRange, releasedOnly, excludeCommits, nextQuality);
+        await storage.store(Bisecter.SESSION_STORAGE_KEY, session);
+
+        return { session, buildsRange };
+    }
+
+    private newSession(kind: IBuildKind, buildsRange: IBuild[], releasedOnly?: boolean, excludeCommits?: string[], nextQuality?: Quality, flaky = CONFIG.flaky): IBisectSession {
+
+        // Start bisecting via binary search
+        const state = createState(buildsRange.length, flaky);
+
+        return {
+            kind: { runtime: kind.runtime, quality: kind.quality, flavor: kind.flavor },
+            goodCommit: buildsRange[buildsRange.length - 1].commit,
+            badCommit: buildsRange[0].commit,
+            releasedOnly: !!releasedOnly,
+            excludeCommits: excludeCommits ?? [],
+            terms: CONFIG.terms,
+            flaky,
+            buildsCount: buildsRange.length,
+            state,
+            answers: [],
+            timestamp: Date.now(),
+            nextQuality
+        };
+    }
+
+    private toVerdict(response: BisectResponse.Good | BisectResponse.Bad | BisectResponse.Skip): BisectVerdict {
+        switch (response) {
+            case BisectResponse.Good:
+                return 'good';
+            case BisectResponse.Bad:
+                return 'bad';
+            case BisectResponse.Skip:
+                return 'skip';
+        }
+    }
+
+    private fromVerdict(verdict: BisectVerdict): BisectResponse.Good | BisectResponse.Bad | BisectResponse.Skip {
+        switch (verdict) {
+            case 'good':
+                return BisectResponse.Good;
+            case 'bad':
+                return BisectResponse.Bad;
+            case 'skip':
+                return BisectResponse.Skip;
+        }
+    }
+
+    private async resumeSession({ runtime, quality, flavor }: IBuildKind): Promise<{ session: IBisectSession, buildsRange: IBuild[] } | undefined> {
+        if (this.isUnattended()) {
+            return undefined; // never prompt when running unattended
+        }
+
+        const session = await storage.getValue<IBisectSession>(Bisecter.SESSION_STORAGE_KEY);
+        if (!session || session.kind.runtime !== runtime || (session.nextQuality ?? session.kind.quality) !== quality || session.kind.flavor !== flavor) {
+            return undefined;
+        }
+
+        const response = await prompts([
+            {
+                type: 'confirm',
+                name: 'resume',
+                initial: true,
+                message: `Would you like to resume the unfinished bisect session from ${chalk.green(new Date(session.timestamp).toLocaleString())} (${chalk.green(session.answers.length)} builds tested so far)?`
+            }
+        ]);
+
+        if (typeof response.resume === 'undefined') {
+            process.exit();
+        }
+
+        if (!response.resume) {
+            await storage.remove(Bisecter.SESSION_STORAGE_KEY);
+
+            return undefined;
+        }
+
+        CONFIG.terms = session.terms ?? CONFIG.terms;
+        CONFIG.flaky = session.flaky; // bisect the same way, also in the next stage
+
+        LOGGER.log(`${chalk.gray('[build]')} resuming bisect session between ${chalk.green(session.goodCommit)} and ${chalk.green(session.badCommit)}`);
+
+        // Validate the range still matches the one of the session
+        let buildsRange: IBuild[] = [];
+        try {
+            buildsRange = await builds.fetchBuilds(session.kind, session.goodCommit, session.badCommit, session.releasedOnly, session.excludeCommits);
+        } catch (error) {
+            LOGGER.trace(`${chalk.gray('[build]')} failed to fetch builds of bisect session: ${error}`);
+        }
+
+        if (
+            buildsRange.length !== session.buildsCount ||
+            buildsRange[0].commit !== session.badCommit ||
+            buildsRange[buildsRange.length - 1].commit !== session.goodCommit
+        ) {
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.red('unable to resume bisect session because the builds in the range changed, starting a new session')}`);
+            await storage.remove(Bisecter.SESSION_STORAGE_KEY);
+
+            return undefined;
         }
 
-        if (!quit) {
-            return this.finishBisect(badBuild, goodBuild);
+        return { session, buildsRange };
+    }
+
+    private async promptForCommitOrVersion(name: 'good' | 'bad', message: string): Promise<string | undefined> {
+        const response = await prompts([
+            {
+                type: 'text',
+                name,
+                initial: '',
+                message
+            }
+        ]);
+
+        if (typeof response[name] === 'undefined') {
+            process.exit();
         }
+
+        return response[name] || undefined;
     }
 
     logWelcome(): void {
@@ -93,95 +544,156 @@ ${chalk.green('╚════════════════════
 
     private async resolveCommits({ runtime, quality, flavor }: IBuildKind, goodCommitOrVersion?: string, badCommitOrVersion?: string) {
         return {
-            goodCommit: await this.resolveCommit({ runtime, quality, flavor }, goodCommitOrVersion),
-            badCommit: await this.resolveCommit({ runtime, quality, flavor }, badCommitOrVersion)
+            goodCommit: await builds.resolveCommit({ runtime, quality, flavor }, goodCommitOrVersion),
+            badCommit: await builds.resolveCommit({ runtime, quality, flavor }, badCommitOrVersion)
         };
     }
 
-    private async resolveCommit({ runtime, quality, flavor }: IBuildKind, commitOrVersion?: string) {
-        if (!commitOrVersion) {
-            return undefined;
-        }
-
-        if (/^\d+\.\d+$/.test(commitOrVersion)) {
-            const commit = (await builds.fetchBuildByVersion({ runtime, quality, flavor }, commitOrVersion)).commit;
-            LOGGER.log(`${chalk.gray('[build]')} latest build with version ${chalk.green(commitOrVersion)} is ${chalk.green(commit)}.`);
-            return commit;
-        }
-
-        if (/^[0-9a-f]{40}$/i.test(commitOrVersion)) {
-            return commitOrVersion;
-        }
-
-        throw new Error(`Invalid commit or version format. Please provide a valid Git commit hash or version in the format of ${chalk.green('major.minor')}.`);
-    }
-
-    private async finishBisect(badBuild: IBuild | undefined, goodBuild: IBuild | undefined): Promise<void> {
+    private async finishBisect(badBuild: IBuild | undefined, goodBuild: IBuild | undefined, skippedBuilds: IBuild[] = [], confidence?: number, changedAreas?: IChangedArea[]): Promise<void> {
+        const terms = CONFIG.terms;
+        const infos = await builds.fetchBuildInfos([badBuild, goodBuild, ...skippedBuilds].filter((build): build is IBuild => !!build));
+        const format = (build: IBuild) => `${chalk.green(build.commit)}${formatBuildInfo(infos.get(build.commit))}`;
         if (goodBuild && badBuild) {
-            LOGGER.log(`${chalk.gray('[build]')} ${chalk.green(badBuild.commit)} is the first bad commit after ${chalk.green(goodBuild.commit)}.`);
+            if (typeof confidence === 'number') {
+                LOGGER.log(`${chalk.gray('[build]')} ${format(badBuild)} is the first ${terms.new} commit after ${format(goodBuild)} with ${chalk.green(`${(confidence * 100).toFixed(1)}%`)} confidence.`);
+            } else if (skippedBuilds.length > 0) {
+                const candidates = [badBuild, ...skippedBuilds].map(format).join(', ');
+                LOGGER.log(`${chalk.gray('[build]')} ${chalk.yellow('Some builds were skipped,')} the first ${terms.new} commit after ${format(goodBuild)} is one of ${candidates}.`);
+            } else {
+                LOGGER.log(`${chalk.gray('[build]')} ${format(badBuild)} is the first ${terms.new} commit after ${format(goodBuild)}.`);
+            }
 
-            console.log();
-            const response = await prompts([
-                {
-                    type: 'confirm',
-                    name: 'open',
-                    initial: true,
-                    message: 'Would you like to open GitHub for the list of changes?'
-                }
-            ]);
+            const compareUrl = this.getCompareUrl(goodBuild, badBuild);
+            if (this.isUnattended()) {
+                LOGGER.log(`${chalk.gray('[build]')} list of changes: ${chalk.green(compareUrl)}`);
+            } else {
+                console.log();
+                const response = await prompts([
+                    {
+                        type: 'confirm',
+                        name: 'open',
+                        initial: true,
+                        message: 'Would you like to open GitHub for the list of changes?'
+                    }
+                ]);
 
-            if (response.open) {
-                open(`https://github.com/microsoft/vscode/compare/${goodBuild.commit}...${badBuild.commit}`);
+                if (response.open) {
+                    open(compareUrl);
+                }
             }
 
             LOGGER.log(`
 Run the following commands to continue bisecting via git in a folder where VS Code is checked out to:
 
-${chalk.green(`git bisect start && git bisect bad ${badBuild.commit} && git bisect good ${goodBuild.commit}`)}
+${chalk.green(`git bisect start${isDefaultTerms(terms) ? '' : ` --term-new=${terms.new} --term-old=${terms.old}`} && git bisect ${terms.new} ${badBuild.commit} && git bisect ${terms.old} ${goodBuild.commit}`)}
 
 `);
+
+            if (CONFIG.commits) {
+                await this.logCommits(goodBuild, badBuild, CONFIG.commits);
+            }
+
+            if (changedAreas) {
+                this.logChangedAreas(goodBuild, changedAreas);
+            }
+        } else if (badBuild && skippedBuilds.length > 0) {
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.red(`All tested builds are ${terms.new}!`)} The first ${terms.new} commit is one of ${[badBuild, ...skippedBuilds].map(format).join(', ')} or older.`);
+        } else if (goodBuild && skippedBuilds.length > 0) {
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.green(`All tested builds are ${terms.old}!`)} The first ${terms.new} commit is one of ${skippedBuilds.map(format).join(', ')} if any.`);
         } else if (badBuild) {
-            LOGGER.log(`${chalk.gray('[build]')} ${chalk.red('All builds are bad!')} Try running with ${chalk.green('--releasedOnly')} to support older builds.`);
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.red(`All builds are ${terms.new}!`)} Try running with ${chalk.green('--releasedOnly')} to support older builds.`);
         } else if (goodBuild) {
-            LOGGER.log(`${chalk.gray('[build]')} ${chalk.green('All builds are good!')} Try running with ${chalk.green('--releasedOnly')} to support older builds.`);
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.green(`All builds are ${terms.old}!`)} Try running with ${chalk.green('--releasedOnly')} to support older builds.`);
+        } else if (skippedBuilds.length > 0) {
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.red('All builds were skipped!')} Unable to determine the first ${terms.new} commit.`);
         } else {
             LOGGER.log(`${chalk.gray('[build]')} ${chalk.red('No builds bisected. Bisect needs at least 2 builds from "main" branch to work.')}`);
         }
     }
 
-    private nextState(state: IBisectState, response: BisectResponse): boolean {
+    private async logCommits(goodBuild: IBuild, badBuild: IBuild, filter: ICommitFilter): Promise<void> {
+        let commits: ICommit[];
+        try {
+            commits = await git.listCommits(goodBuild.commit, badBuild.commit, filter);
+        } catch (error) {
+            LOGGER.log(`${chalk.gray('[git]')} ${chalk.red(`unable to list commits: ${error}`)}`);
+            return;
+        }
 
-        // Binary search is done
-        if (state.currentChunk === 1) {
-            return true;
+        const isFiltered = !!filter.paths?.length || !!filter.authors?.length;
+        LOGGER.log(`${chalk.gray('[git]')} ${chalk.green(commits.length)} commit${commits.length === 1 ? '' : 's'}${isFiltered ? ' matching the filter' : ''} after ${chalk.green(goodBuild.commit)}:`);
+
+        for (const { sha, subject, author, date, pullRequest } of commits) {
+            const pullRequestUrl = pullRequest ? ` ${chalk.green(`https://github.com/microsoft/vscode/pull/${pullRequest}`)}` : '';
+            LOGGER.log(`  ${chalk.green(sha.substring(0, 10))} ${chalk.gray(date.substring(0, 10))} ${subject} ${chalk.gray(`(${author})`)}${pullRequestUrl}`);
         }
 
-        // Binary search is not done
-        else {
-            state.currentChunk = Math.round(state.currentChunk / 2);
-            state.currentIndex = response === BisectResponse.Good ? state.currentIndex - state.currentChunk /* try newer */ : state.currentIndex + state.currentChunk /* try older */;
+        console.log();
+    }
+
+    private async fetchChangedAreas(goodBuild: IBuild, badBuild: IBuild): Promise<IChangedArea[] | undefined> {
+        try {
+            return await git.listChangedAreas(goodBuild.commit, badBuild.commit);
+        } catch (error) {
+            LOGGER.log(`${chalk.gray('[git]')} ${chalk.red(`unable to list changed areas: ${error}`)}`);
 
-            return false;
+            return undefined;
         }
     }
 
-    async tryBuild(build: IBuild, options: { forceReDownload: boolean, isBisecting: boolean }): Promise<BisectResponse> {
+    private logChangedAreas(goodBuild: IBuild, changedAreas: IChangedArea[]): void {
+        LOGGER.log(`${chalk.gray('[git]')} changed areas after ${chalk.green(goodBuild.commit)}:`);
+
+        const maxAreas = 15;
+        for (const { area, linesChanged, commits } of changedAreas.slice(0, maxAreas)) {
+            LOGGER.log(`  ${chalk.green(`${linesChanged}`.padStart(7))} lines ${chalk.green(`${commits}`.padStart(4))} commit${commits === 1 ? ' ' : 's'} ${area}`);
+        }
+
+        if (changedAreas.length > maxAreas) {
+            LOGGER.log(`  ${chalk.gray(`… ${changedAreas.length - maxAreas} more areas`)}`);
+        }
+
+        console.log();
+    }
+
+    async tryBuild(build: IBuild, options: { forceReDownload: boolean, isBisecting: boolean, canUndo?: boolean, perfThreshold?: number }): Promise<BisectResponse> {
+        if (CONFIG.run) {
+            return this.runBuild(build, CONFIG.run, options);
+        }
+
         try {
             const instance = await launcher.launch(build, options);
             if (!instance) {
                 return BisectResponse.Good;
             }
 
+            // Classify automatically by performance threshold
+            if (options.isBisecting && typeof options.perfThreshold === 'number') {
+                await instance.stop();
+
+                if (typeof instance.ellapsed !== 'number') {
+                    LOGGER.log(`${chalk.gray('[perf]')} skipping build ${chalk.green(build.commit)} because its performance could not be measured`);
+                    return BisectResponse.Skip;
+                }
+
+                const isBad = instance.ellapsed > options.perfThreshold;
+                LOGGER.log(`${chalk.gray('[perf]')} build ${chalk.green(build.commit)} took ${chalk.green(`${instance.ellapsed}ms`)} (threshold ${chalk.green(`${options.perfThreshold}ms`)}) and is ${isBad ? chalk.red(CONFIG.terms.new) : chalk.green(CONFIG.terms.old)}`);
+
+                return isBad ? BisectResponse.Bad : BisectResponse.Good;
+            }
+
             console.log();
+            const info = options.isBisecting ? await this.fetchBuildInfo(build) : undefined;
             const response = options.isBisecting ? await prompts([
                 {
                     type: 'select',
                     name: 'status',
-                    message: `Is ${chalk.green(build.commit)} good or bad?`,
+                    message: `Is ${chalk.green(build.commit)}${formatBuildInfo(info)} ${CONFIG.terms.old} or ${CONFIG.terms.new}?`,
                     choices: (() => {
                         const choices = [
-                            { title: 'Good', value: 'good' },
-                            { title: 'Bad', value: 'bad' },
+                            { title: this.capitalize(CONFIG.terms.old), value: 'good' },
+                            { title: this.capitalize(CONFIG.terms.new), value: 'bad' },
+                            { title: 'Skip (untestable build)', value: 'skip' },
                             { title: 'Retry', value: 'retry' }
                         ];
 
@@ -189,6 +701,10 @@ ${chalk.green(`git bisect start && git bisect bad ${badBuild.commit} && git bise
                             choices.push({ title: 'Retry (fresh user data & extensions dir)', value: 'retry-fresh' });
                         }
 
+                        if (options.canUndo) {
+                            choices.push({ title: 'Undo last answer', value: 'undo' });
+                        }
+
                         choices.push({ title: 'Quit', value: 'quit' });
 
                         return choices;
@@ -207,14 +723,34 @@ ${chalk.green(`git bisect start && git bisect bad ${badBuild.commit} && git bise
                 return this.tryBuild(build, { ...options, forceReDownload: false });
             }
 
-            return response.status === 'good' ? BisectResponse.Good : response.status === 'bad' ? BisectResponse.Bad : BisectResponse.Quit;
+            switch (response.status) {
+                case 'good':
+                    return BisectResponse.Good;
+                case 'bad':
+                    return BisectResponse.Bad;
+                case 'skip':
+                    return BisectResponse.Skip;
+                case 'undo':
+                    return BisectResponse.Undo;
+                default:
+                    return BisectResponse.Quit;
+            }
         } catch (error) {
             LOGGER.log(`${chalk.red('\n[error]')} ${error}\n`);
 
+            if (options.isBisecting && this.isUnattended()) {
+                LOGGER.log(`${chalk.gray('[build]')} skipping build ${chalk.green(build.commit)} because it could not be tested`);
+                return BisectResponse.Skip;
+            }
+
             console.log();
-            const response = await this.promptToRestart(build);
+            const response = await this.promptToRestart(build, { canSkip: options.isBisecting });
             console.log();
 
+            if (response.status === 'skip') {
+                return BisectResponse.Skip;
+            }
+
             if (response.status === 'retry-fresh') {
                 cleanUserDataDir();
             }
@@ -229,7 +765,45 @@ ${chalk.green(`git bisect start && git bisect bad ${badBuild.commit} && git bise
         }
     }
 
-    private async promptToRestart(build: IBuild) {
+    private async runBuild(build: IBuild, script: string, options: { forceReDownload: boolean }): Promise<BisectResponse> {
+        let exitCode: number;
+        try {
+            cleanUserDataDir();
+
+            exitCode = await launcher.runScript(build, script, options);
+        } catch (error) {
+            LOGGER.log(`${chalk.red('\n[error]')} ${error}\n`);
+            LOGGER.log(`${chalk.gray('[run]')} skipping build ${chalk.green(build.commit)} because it could not be tested`);
+
+            return BisectResponse.Skip;
+        }
+
+        // Same semantics as `git bisect run`:
+        // - 0: good
+        // - 125: skip
+        // - 1-127: bad
+        // - anything else: abort
+        let response: BisectResponse;
+        if (exitCode === 0) {
+            response = BisectResponse.Good;
+        } else if (exitCode === 125) {
+            response = BisectResponse.Skip;
+        } else if (exitCode < 128) {
+            response = BisectResponse.Bad;
+        } else {
+            response = BisectResponse.Quit;
+        }
+
+        LOGGER.log(`${chalk.gray('[run]')} script exited with code ${chalk.green(exitCode)}, build ${chalk.green(build.commit)} is ${chalk.green(response === BisectResponse.Good ? CONFIG.terms.old : response === BisectResponse.Bad ? CONFIG.terms.new : response === BisectResponse.Skip ? 'skipped' : 'aborting bisect')}`);
+
+        return response;
+    }
+
+    private capitalize(value: string): string {
+        return `${value.charAt(0).toUpperCase()}${value.substring(1)}`;
+    }
+
+    private async promptToRestart(build: IBuild, options?: { canSkip: boolean }) {
         return await prompts([
             {
                 type: 'select',
@@ -244,6 +818,10 @@ ${chalk.green(`git bisect start && git bisect bad ${badBuild.commit} && git bise
                         choices.push({ title: 'Yes (fresh user data & extensions dir)', value: 'retry-fresh' });
                     }
 
+                    if (options?.canSkip) {
+                        choices.push({ title: 'No, skip this build', value: 'skip' });
+                    }
+
                     choices.push({ title: 'No', value: 'no' });
 
                     return choices;
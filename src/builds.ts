@@ -5,10 +5,14 @@
 
 import chalk from 'chalk';
 import { dirname, join } from 'node:path';
-import { rmSync } from 'node:fs';
-import { Arch, arch, Flavor, isDockerCliFlavor, LOGGER, Platform, platform, Quality, Runtime } from './constants.js';
-import { fileGet, jsonGet } from './fetch.js';
-import { computeSHA256, exists, getBuildPath, unzip } from './files.js';
+import { createHash } from 'node:crypto';
+import { promises, rmSync } from 'node:fs';
+import { Arch, arch, BUILD_COMMITS_FOLDER, BUILD_FOLDER, BUILD_META_FOLDER, CONFIG, DEFAULT_UPDATE_URL, Flavor, GIT_VSCODE_FOLDER, isDockerCliFlavor, LOGGER, Platform, platform, Quality, Runtime } from './constants.js';
+import { fileGet, IDownloadOptions, IDownloadProgress, jsonGet, jsonGetIfNoneMatch } from './fetch.js';
+import { computeSHA256, exists, getBuildPath, getLocalBuildPath, parseBuildPathCommit, unzip } from './files.js';
+import { git } from './git.js';
+import { getArchiveName, isUrl, localBuilds } from './local.js';
+import { getProductQuality, VSCODE_PRODUCT } from './product.js';
 
 export interface IBuildKind {
     readonly runtime: Runtime;
@@ -20,26 +24,193 @@ export interface IBuild extends IBuildKind {
     readonly commit: string;
 }
 
-interface IBuildMetadata {
+export interface IBuildInfo {
+    readonly productVersion: string;
+
+    /**
+     * Time of the build in milliseconds since epoch
+     * if provided by the update server.
+     */
+    readonly timestamp?: number;
+}
+
+interface IBuildMetadata extends IBuildInfo {
     readonly url: string;
     readonly version: string;
-    readonly productVersion: string;
-    readonly sha256hash: string;
+    readonly sha256hash?: string;
+}
+
+interface ICachedCommits {
+    readonly timestamp: number;
+    readonly etag?: string;
+    readonly commits: string[];
 }
 
 class Builds {
 
+    private static readonly BUILD_META_BATCH_SIZE = 10;
+
+    private readonly buildMetaCache = new Map<string, Promise<IBuildMetadata>>();
+
     async fetchBuildByVersion({ runtime, quality, flavor }: IBuildKind, version: string): Promise<IBuild> {
-        let meta;
-        if (quality === 'insider') {
-            meta = await jsonGet<IBuildMetadata>(`https://update.code.visualstudio.com/api/versions/${version}.0-insider/${this.getBuildApiName({ runtime, quality, flavor })}/insider?released=true`);
-        } else {
-            meta = await jsonGet<IBuildMetadata>(`https://update.code.visualstudio.com/api/versions/${version}.0/${this.getBuildApiName({ runtime, quality, flavor })}/stable?released=true`);
+        if (CONFIG.offline || localBuilds.isEnabled) {
+            for (const build of await this.fetchAllBuilds({ runtime, quality, flavor })) {
+                if ((await this.fetchBuildInfo(build)).productVersion.startsWith(`${version}.`)) {
+                    return build;
+                }
+            }
+
+            throw new Error(`No build with version ${chalk.green(version)} is ${localBuilds.isEnabled ? 'one of the local builds' : 'available offline'}.`);
         }
 
+        const { updateName, versionSuffix } = getProductQuality(CONFIG.product, quality);
+        const meta = await jsonGet<IBuildMetadata>(`${CONFIG.updateUrl}/api/versions/${version}.0${versionSuffix}/${this.getBuildApiName({ runtime, quality, flavor })}/${updateName}?released=true`);
+
         return { runtime, commit: meta.version, quality, flavor };
     }
 
+    /**
+     * Resolves a commit hash, `major.minor` version or date
+     * (`2024-11-05`, `2w`) to the commit hash of a released build.
+     */
+    async resolveCommit({ runtime, quality, flavor }: IBuildKind, commitOrVersion?: string): Promise<string | undefined> {
+        if (!commitOrVersion) {
+            return undefined;
+        }
+
+        if (/^\d+\.\d+$/.test(commitOrVersion)) {
+            const commit = (await this.fetchBuildByVersion({ runtime, quality, flavor }, commitOrVersion)).commit;
+            LOGGER.log(`${chalk.gray('[build]')} latest build with version ${chalk.green(commitOrVersion)} is ${chalk.green(commit)}.`);
+            return commit;
+        }
+
+        if (/^[0-9a-f]{40}$/i.test(commitOrVersion)) {
+            return commitOrVersion;
+        }
+
+        const date = parseDate(commitOrVersion);
+        if (typeof date === 'number') {
+            const build = await this.fetchBuildByDate({ runtime, quality, flavor }, date);
+            LOGGER.log(`${chalk.gray('[build]')} newest build on or before ${chalk.green(commitOrVersion)} is ${chalk.green(build.commit)}${formatBuildInfo(await this.fetchBuildInfo(build))}.`);
+            return build.commit;
+        }
+
+        throw new Error(`Invalid commit, version or date format. Please provide a valid Git commit hash, version in the format of ${chalk.green('major.minor')} or date in the format of ${chalk.green('YYYY-MM-DD')} or ${chalk.green('<number>d|w')}.`);
+    }
+
+    /**
+     * Finds the newest build published on or before the date,
+     * looking at released builds when the date is older than
+     * all recent builds. Builds without a date are skipped.
+     */
+    private async fetchBuildByDate({ runtime, quality, flavor }: IBuildKind, date: number): Promise<IBuild> {
+        const skipped = new Set<string>();
+        const warnSkipped = () => {
+            if (skipped.size > 0) {
+                LOGGER.log(`${chalk.gray('[build]')} ${chalk.yellow(`skipped ${skipped.size} build${skipped.size === 1 ? '' : 's'} without a date`)}`);
+            }
+        };
+
+        for (const releasedOnly of [false, true]) {
+            const allBuilds = [...await this.fetchAllBuilds({ runtime, quality, flavor }, releasedOnly)];
+
+            let oldestTimestamp: number | undefined = undefined;
+            while (allBuilds.length > 0 && typeof (oldestTimestamp = await this.fetchBuildTimestamp(allBuilds[allBuilds.length - 1])) !== 'number') {
+                skipped.add(allBuilds.pop()!.commit);
+            }
+
+            if (typeof oldestTimestamp !== 'number' || oldestTimestamp > date) {
+                continue; // all builds are newer than the date
+            }
+
+            // Binary search for the newest build (builds are newest first)
+            // that was published on or before the date
+            let low = 0;
+            let high = allBuilds.length - 1;
+            while (low < high) {
+                const middle = Math.floor((low + high) / 2);
+                const timestamp = await this.fetchBuildTimestamp(allBuilds[middle]);
+                if (typeof timestamp !== 'number') {
+                    skipped.add(allBuilds.splice(middle, 1)[0].commit);
+                    high--;
+                } else if (timestamp <= date) {
+                    high = middle;
+                } else {
+                    low = middle + 1;
+                }
+            }
+
+            warnSkipped();
+
+            return allBuilds[low];
+        }
+
+        warnSkipped();
+
+        if (skipped.size > 0 && !await git.hasClone()) {
+            throw new Error(`No build with a known date was published on or before ${chalk.green(new Date(date).toLocaleString())}. Dates of builds without a timestamp are looked up in a local clone of VS Code, but ${chalk.green(GIT_VSCODE_FOLDER)} does not exist. Please provide a commit hash or version instead.`);
+        }
+
+        throw new Error(`No build was published on or before ${chalk.green(new Date(date).toLocaleString())}.`);
+    }
+
+    /**
+     * Time of the build or, if the update server does not provide
+     * one, the commit date of the local clone when it exists already
+     * (it is never cloned only for that).
+     */
+    private async fetchBuildTimestamp(build: IBuild): Promise<number | undefined> {
+        const { timestamp } = await this.fetchBuildInfo(build);
+        if (typeof timestamp === 'number') {
+            return timestamp;
+        }
+
+        return this.fetchCommitDate(build.commit);
+    }
+
+    private async fetchCommitDate(commit: string): Promise<number | undefined> {
+        if (await git.hasClone()) {
+            try {
+                return await git.getCommitDate(commit);
+            } catch (error) {
+                LOGGER.trace(`${chalk.gray('[build]')} failed to get commit date of ${chalk.green(commit)}: ${error}`);
+            }
+        }
+
+        return undefined;
+    }
+
+    async fetchBuildInfo({ runtime, commit, quality, flavor }: IBuild): Promise<IBuildInfo> {
+        const { productVersion, timestamp } = await this.fetchBuildMeta({ runtime, commit, quality, flavor });
+
+        return { productVersion, timestamp };
+    }
+
+    /**
+     * Fetches the product version and date of many builds in
+     * batches. Builds whose metadata cannot be fetched are
+     * missing from the result.
+     */
+    async fetchBuildInfos(buildsToFetch: IBuild[]): Promise<Map<string, IBuildInfo>> {
+        const infos = new Map<string, IBuildInfo>();
+        const uniqueBuilds = [...new Map(buildsToFetch.map(build => [build.commit, build])).values()];
+
+        for (let i = 0; i < uniqueBuilds.length; i += Builds.BUILD_META_BATCH_SIZE) {
+            const batch = uniqueBuilds.slice(i, i + Builds.BUILD_META_BATCH_SIZE);
+            const results = await Promise.allSettled(batch.map(build => this.fetchBuildInfo(build)));
+
+            results.forEach((result, index) => {
+                if (result.status === 'fulfilled') {
+                    infos.set(batch[index].commit, result.value);
+                } else {
+                    LOGGER.trace(`${chalk.gray('[build]')} failed to fetch build info of ${chalk.green(batch[index].commit)}: ${result.reason}`);
+                }
+            });
+        }
+
+        return infos;
+    }
+
     async fetchBuilds({ runtime, quality, flavor }: IBuildKind, goodCommit?: string, badCommit?: string, releasedOnly?: boolean, excludeCommits?: string[]): Promise<IBuild[]> {
 
         // Fetch all released builds
@@ -48,11 +219,13 @@ class Builds {
         let goodCommitIndex = allBuilds.length - 1;  // last build (oldest) by default
         let badCommitIndex = 0;                      // first build (newest) by default
 
+        const notFound = CONFIG.offline ? 'is not available offline' : 'was not found in the list of builds. It is either invalid or too old';
+
         if (typeof goodCommit === 'string') {
             const candidateGoodCommitIndex = this.indexOf(goodCommit, allBuilds);
             if (typeof candidateGoodCommitIndex !== 'number') {
                 if (releasedOnly) {
-                    throw new Error(`Provided good commit ${chalk.green(goodCommit)} was not found in the list of builds. It is either invalid or too old.`);
+                    throw new Error(`Provided ${CONFIG.terms.old} commit ${chalk.green(goodCommit)} ${notFound}.`);
                 } else {
                     return this.fetchBuilds({ runtime, quality, flavor }, goodCommit, badCommit, true, excludeCommits);
                 }
@@ -65,7 +238,7 @@ class Builds {
             const candidateBadCommitIndex = this.indexOf(badCommit, allBuilds);
             if (typeof candidateBadCommitIndex !== 'number') {
                 if (releasedOnly) {
-                    throw new Error(`Provided bad commit ${chalk.green(badCommit)} was not found in the list of builds. It is either invalid or too old.`);
+                    throw new Error(`Provided ${CONFIG.terms.new} commit ${chalk.green(badCommit)} ${notFound}.`);
                 } else {
                     return this.fetchBuilds({ runtime, quality, flavor }, goodCommit, badCommit, true, excludeCommits);
                 }
@@ -75,7 +248,7 @@ class Builds {
         }
 
         if (badCommitIndex >= goodCommitIndex) {
-            throw new Error(`Provided bad commit ${chalk.green(badCommit)} cannot be older or same as good commit ${chalk.green(goodCommit)}.`);
+            throw new Error(`Provided ${CONFIG.terms.new} commit ${chalk.green(badCommit)} cannot be older or same as ${CONFIG.terms.old} commit ${chalk.green(goodCommit)}.`);
         }
 
         // Build a range based on the bad and good commits if any
@@ -94,9 +267,41 @@ class Builds {
         }
 
         // Drop those builds that are not on main branch
+        if (CONFIG.verifyHistory && quality === Quality.Insider) {
+            buildsInRange = await this.dropBuildsNotOnMain(buildsInRange, goodCommit, badCommit);
+        }
+
         return buildsInRange;
     }
 
+    private async dropBuildsNotOnMain(buildsInRange: IBuild[], goodCommit?: string, badCommit?: string): Promise<IBuild[]> {
+        LOGGER.log(`${chalk.gray('[build]')} verifying that builds are on ${chalk.green('main')} branch...`);
+
+        let history: string[];
+        try {
+            history = await git.listMainCommits();
+        } catch (error) {
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.yellow(`unable to verify the history of builds (${error}), using all builds of the range`)}`);
+
+            return buildsInRange;
+        }
+
+        const { builds: buildsOnMain, dropped } = partitionByHistory(buildsInRange, history);
+
+        // Never change the range that was asked for
+        for (const [commit, term] of [[goodCommit, CONFIG.terms.old], [badCommit, CONFIG.terms.new]]) {
+            if (commit && dropped.some(build => build.commit === commit)) {
+                throw new Error(`Provided ${term} commit ${chalk.green(commit)} is not on main branch or out of order. Please provide a build from main branch or run without ${chalk.green('--verify-history')}.`);
+            }
+        }
+
+        if (dropped.length > 0) {
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.yellow(`dropped ${dropped.length} build${dropped.length === 1 ? '' : 's'} that ${dropped.length === 1 ? 'is' : 'are'} not on main branch or out of order:`)} ${dropped.map(build => chalk.green(build.commit)).join(', ')}`);
+        }
+
+        return buildsOnMain;
+    }
+
     private indexOf(commit: string, builds: IBuild[]): number | undefined {
         for (let i = 0; i < builds.length; i++) {
             const build = builds[i];
@@ -109,13 +314,175 @@ class Builds {
     }
 
     private async fetchAllBuilds({ runtime, quality, flavor }: IBuildKind, releasedOnly = false): Promise<IBuild[]> {
-        const url = `https://update.code.visualstudio.com/api/commits/${quality}/${this.getBuildApiName({ runtime, quality, flavor })}?released=${releasedOnly}`;
-        LOGGER.log(`${chalk.gray('[build]')} fetching all builds from ${chalk.green(url)}...`);
-        const commits = await jsonGet<Array<string>>(url);
+        if (localBuilds.isEnabled) {
+            return localBuilds.list().map(({ commit }) => ({ commit, runtime, quality, flavor }));
+        }
+
+        if (CONFIG.offline) {
+            return this.fetchCachedBuilds({ runtime, quality, flavor });
+        }
+
+        const url = `${CONFIG.updateUrl}/api/commits/${getProductQuality(CONFIG.product, quality).updateName}/${this.getBuildApiName({ runtime, quality, flavor })}?released=${releasedOnly}`;
+        const commits = await this.fetchCommits(url, join(BUILD_COMMITS_FOLDER, `${createHash('sha256').update(url).digest('hex').substring(0, 16)}.json`));
 
         return commits.map(commit => ({ commit, runtime, quality, flavor }));
     }
 
+    /**
+     * Fetches the list of commits, reusing the cached list if it is
+     * younger than `CONFIG.commitsCacheTtl` or not modified since.
+     * Falls back to an outdated cached list if the request fails.
+     */
+    private async fetchCommits(url: string, cachePath: string): Promise<string[]> {
+        let cached: ICachedCommits | undefined = undefined;
+        if (!CONFIG.refresh) {
+            try {
+                cached = JSON.parse((await promises.readFile(cachePath)).toString());
+            } catch (error) {
+                // not cached yet
+            }
+        }
+
+        if (cached && Date.now() - cached.timestamp < CONFIG.commitsCacheTtl) {
+            LOGGER.log(`${chalk.gray('[build]')} using cached builds of ${chalk.green(url)} from ${chalk.green(new Date(cached.timestamp).toLocaleString())}`);
+
+            return cached.commits;
+        }
+
+        LOGGER.log(`${chalk.gray('[build]')} fetching all builds from ${chalk.green(url)}...`);
+
+        let commits: string[];
+        let etag: string | undefined;
+        try {
+            let response = await jsonGetIfNoneMatch<string[]>(url, cached?.etag);
+            if (response) {
+                commits = response.value;
+                etag = response.etag;
+            } else if (cached) {
+                commits = cached.commits; // not modified
+                etag = cached.etag;
+            } else {
+
+                // Not modified without a cached list to use,
+                // ask again for the full list instead
+                response = await jsonGetIfNoneMatch<string[]>(url, undefined);
+                if (!response) {
+                    throw new Error(`Update server reported builds of ${url} as not modified without a cached list of builds.`);
+                }
+
+                commits = response.value;
+                etag = response.etag;
+            }
+        } catch (error) {
+            if (!cached) {
+                throw error;
+            }
+
+            LOGGER.log(`${chalk.gray('[build]')} ${chalk.yellow(`unable to fetch builds (${error}), using cached builds from ${new Date(cached.timestamp).toLocaleString()}`)}`);
+
+            return cached.commits;
+        }
+
+        try {
+            await promises.mkdir(dirname(cachePath), { recursive: true });
+            await promises.writeFile(cachePath, JSON.stringify({ timestamp: Date.now(), etag, commits } satisfies ICachedCommits));
+        } catch (error) {
+            LOGGER.trace(`${chalk.gray('[build]')} failed to cache builds of ${chalk.green(url)}: ${error}`);
+        }
+
+        return commits;
+    }
+
+    /**
+     * Lists the builds that were downloaded before, newest first,
+     * based on the metadata stored when fetching them and on the
+     * build folders of earlier versions that stored no metadata.
+     */
+    private async fetchCachedBuilds({ runtime, quality, flavor }: IBuildKind): Promise<IBuild[]> {
+        LOGGER.log(`${chalk.gray('[build]')} looking for builds available offline in ${chalk.green(BUILD_META_FOLDER)} and ${chalk.green(BUILD_FOLDER)}...`);
+
+        const cachedBuilds = new Map<string, { build: IBuild, timestamp: number | undefined }>();
+
+        // Builds with metadata
+        const prefix = this.getBuildMetaPrefix({ runtime, quality, flavor });
+        for (const file of await this.readDirectory(BUILD_META_FOLDER)) {
+            const commit = file.startsWith(prefix) ? file.substring(prefix.length, file.length - '.json'.length) : undefined;
+            if (!commit || !/^[0-9a-f]{40}$/.test(commit)) {
+                continue;
+            }
+
+            const build: IBuild = { runtime, commit, quality, flavor };
+            if (!await exists(join(this.getBuildFolder(build), await this.getBuildDownloadName(build)))) {
+                continue; // deleted since
+            }
+
+            cachedBuilds.set(commit, { build, timestamp: await this.fetchBuildTimestamp(build) });
+        }
+
+        // Builds without metadata that were extracted before
+        if (this.isExtractedFlavor(flavor)) {
+            for (const folder of await this.readDirectory(BUILD_FOLDER)) {
+                let commit = parseBuildPathCommit(folder, quality, flavor);
+                if (commit && commit.length < 40) {
+                    commit = await git.hasClone() ? await git.revParse(commit) : undefined; // abbreviated on Windows
+                }
+
+                if (!commit || cachedBuilds.has(commit) || await this.readBuildMeta({ runtime, commit, quality, flavor })) {
+                    continue;
+                }
+
+                const build: IBuild = { runtime, commit, quality, flavor };
+                if (!await this.isExtracted(build)) {
+                    continue;
+                }
+
+                cachedBuilds.set(commit, { build, timestamp: await this.fetchCommitDate(commit) });
+            }
+        }
+
+        const datedBuilds: { build: IBuild, timestamp: number }[] = [];
+        for (const { build, timestamp } of cachedBuilds.values()) {
+            if (typeof timestamp !== 'number') {
+                LOGGER.log(`${chalk.gray('[build]')} ${chalk.yellow(`skipped build ${build.commit} without a date`)}`);
+                continue; // cannot be ordered
+            }
+
+            datedBuilds.push({ build, timestamp });
+        }
+
+        if (datedBuilds.length === 0) {
+            throw new Error(`No ${chalk.green(quality)} builds are available offline. Run without ${chalk.green('--offline')} first to download builds.`);
+        }
+
+        LOGGER.log(`${chalk.gray('[build]')} found ${chalk.green(datedBuilds.length)} build${datedBuilds.length === 1 ? '' : 's'} available offline`);
+
+        return datedBuilds.sort((a, b) => b.timestamp - a.timestamp).map(({ build }) => build);
+    }
+
+    private async readDirectory(path: string): Promise<string[]> {
+        try {
+            return await promises.readdir(path);
+        } catch (error) {
+            return []; // nothing downloaded yet
+        }
+    }
+
+    private isExtractedFlavor(flavor: Flavor): boolean {
+        return flavor === Flavor.Default || flavor === Flavor.Cli || flavor === Flavor.DarwinUniversal;
+    }
+
+    /**
+     * Whether the executable of the build exists, e.g. to use
+     * builds without metadata offline.
+     */
+    private async isExtracted(build: IBuild): Promise<boolean> {
+        try {
+            return await exists(await this.getBuildExecutable(build));
+        } catch (error) {
+            return false; // e.g. the name requires metadata
+        }
+    }
+
     private getBuildApiName({ runtime, flavor }: IBuildKind): string {
 
         // Server
@@ -148,14 +515,25 @@ class Builds {
         }
     }
 
-    async downloadAndExtractBuild({ runtime, commit, quality, flavor }: IBuild, options?: { forceReDownload: boolean }): Promise<string | undefined> {
+    async downloadAndExtractBuild({ runtime, commit, quality, flavor }: IBuild, options?: { forceReDownload: boolean, onDownloadProgress?: (progress: IDownloadProgress) => void } & IDownloadOptions): Promise<string | undefined> {
         if (isDockerCliFlavor(flavor)) {
             return undefined; // CLIs running in docker are handled differently
         }
 
+        const log = options?.silent ? LOGGER.trace : LOGGER.log;
+
+        // Builds extracted by earlier versions have no metadata
+        // to know the archive of but can be used offline as is
+        if (CONFIG.offline && !localBuilds.isEnabled && !await this.readBuildMeta({ runtime, commit, quality, flavor }) && this.isExtractedFlavor(flavor) && await this.isExtracted({ runtime, commit, quality, flavor })) {
+            LOGGER.trace(`${chalk.gray('[build]')} using extracted build ${chalk.green(commit)} without metadata`);
+
+            return this.getBuildFolder({ runtime, commit, quality, flavor });
+        }
+
         const buildName = await this.getBuildDownloadName({ runtime, commit, quality, flavor });
 
-        const path = join(getBuildPath(commit, quality, flavor), buildName);
+        const buildFolder = this.getBuildFolder({ runtime, commit, quality, flavor });
+        const path = join(buildFolder, buildName);
 
         const pathExists = await exists(path);
         if (pathExists && !options?.forceReDownload) {
@@ -164,57 +542,106 @@ class Builds {
             return path; // assume the build is cached
         }
 
-        if (pathExists && options?.forceReDownload) {
-            LOGGER.log(`${chalk.gray('[build]')} deleting ${chalk.green(getBuildPath(commit, quality, flavor))} and retrying download`);
-            rmSync(getBuildPath(commit, quality, flavor), { recursive: true });
+        if (CONFIG.offline && !localBuilds.isEnabled) {
+            throw new Error(`Build ${chalk.green(commit)} is not available offline.`);
         }
 
-        // Download
-        const { url, sha256hash: expectedSHA256 } = await this.fetchBuildMeta({ runtime, commit, quality, flavor });
-        LOGGER.log(`${chalk.gray('[build]')} downloading build from ${chalk.green(url)}...`);
-        await fileGet(url, path);
-
-        // Validate SHA256 Checksum
-        const computedSHA256 = await computeSHA256(path);
-        if (expectedSHA256 !== computedSHA256) {
-            throw new Error(`${chalk.gray('[build]')} ${chalk.red('✘')} expected SHA256 checksum (${expectedSHA256}) does not match with download (${computedSHA256})`);
-        } else {
-            LOGGER.log(`${chalk.gray('[build]')} ${chalk.green('✔︎')} expected SHA256 checksum matches with download`);
+        if (pathExists && options?.forceReDownload) {
+            log(`${chalk.gray('[build]')} deleting ${chalk.green(buildFolder)} and retrying download`);
+            rmSync(buildFolder, { recursive: true });
         }
 
-        // Unzip (unless its an installer)
-        if (flavor === Flavor.Default || flavor === Flavor.Cli || flavor === Flavor.DarwinUniversal) {
-            let destination: string;
-            if ((runtime === Runtime.DesktopLocal || runtime === Runtime.WebLocal) && flavor === Flavor.Default && (platform === Platform.WindowsX64 || platform === Platform.WindowsArm)) {
-                // zip does not contain a single top level folder to use...
-                destination = path.substring(0, path.lastIndexOf('.zip'));
+        // Download and extract, removing only what this attempt
+        // created when it fails or is cancelled (a partial archive or
+        // extraction) so that the build is downloaded again when needed
+        let extractionPath: string | undefined = undefined;
+        try {
+            const meta = await this.fetchBuildMeta({ runtime, commit, quality, flavor });
+            const { url, sha256hash: expectedSHA256 } = meta;
+            if (localBuilds.isEnabled && !isUrl(url)) {
+                log(`${chalk.gray('[build]')} copying build from ${chalk.green(url)}...`);
+                await promises.mkdir(dirname(path), { recursive: true });
+                await promises.copyFile(url, path);
             } else {
-                // zip contains a single top level folder to use
-                destination = dirname(path);
+                log(`${chalk.gray('[build]')} downloading build from ${chalk.green(url)}...`);
+                await fileGet(url, path, options?.onDownloadProgress, options);
             }
-            LOGGER.log(`${chalk.gray('[build]')} unzipping ${chalk.green(path)} to ${chalk.green(destination)}...`);
-            await unzip(path, destination);
 
-            return destination;
+            // Validate SHA256 Checksum
+            const computedSHA256 = await computeSHA256(path);
+            if (!expectedSHA256) {
+                log(`${chalk.gray('[build]')} ${chalk.yellow('no SHA256 checksum to validate the build against')}`);
+            } else if (expectedSHA256 !== computedSHA256) {
+                throw new Error(`${chalk.gray('[build]')} ${chalk.red('✘')} expected SHA256 checksum (${expectedSHA256}) does not match with download (${computedSHA256})`);
+            } else {
+                log(`${chalk.gray('[build]')} ${chalk.green('✔︎')} expected SHA256 checksum matches with download`);
+            }
+
+            if (options?.signal?.aborted) {
+                throw new Error(`Download of build ${chalk.green(commit)} was cancelled.`);
+            }
+
+            // Unzip (unless its an installer)
+            if (this.isExtractedFlavor(flavor)) {
+                let destination: string;
+                if ((runtime === Runtime.DesktopLocal || runtime === Runtime.WebLocal) && flavor === Flavor.Default && (platform === Platform.WindowsX64 || platform === Platform.WindowsArm)) {
+                    // zip does not contain a single top level folder to use...
+                    destination = path.substring(0, path.lastIndexOf('.zip'));
+                    extractionPath = destination;
+                } else {
+                    // zip contains a single top level folder to use
+                    destination = dirname(path);
+                    extractionPath = join(destination, await this.getBuildName({ runtime, commit, quality, flavor }));
+                }
+                log(`${chalk.gray('[build]')} unzipping ${chalk.green(path)} to ${chalk.green(destination)}...`);
+                await unzip(path, destination);
+
+                return destination;
+            }
+
+            return path;
+        } catch (error) {
+            for (const partialPath of [path, extractionPath]) {
+                if (partialPath) {
+                    try {
+                        await promises.rm(partialPath, { recursive: true, force: true });
+                    } catch (error) {
+                        LOGGER.trace(`${chalk.gray('[build]')} failed to remove ${chalk.green(partialPath)}: ${error}`);
+                    }
+                }
+            }
+
+            throw error;
         }
+    }
 
-        return path;
+    private getBuildFolder({ commit, quality, flavor }: IBuild): string {
+        if (localBuilds.isEnabled) {
+            return getLocalBuildPath(localBuilds.get(commit));
+        }
+
+        return getBuildPath(commit, quality, flavor);
     }
 
     private async getBuildDownloadName({ runtime, commit, quality, flavor }: IBuild): Promise<string> {
 
+        // Local
+        if (localBuilds.isEnabled) {
+            return getArchiveName(localBuilds.get(commit).archive);
+        }
+
         // Server
         if (runtime === Runtime.WebLocal || runtime === Runtime.WebRemote) {
             switch (platform) {
                 case Platform.MacOSX64:
                 case Platform.MacOSArm:
-                    return `vscode-server-darwin-${arch}-web.zip`;
+                    return `${CONFIG.product.serverArchivePrefix}-darwin-${arch}-web.zip`;
                 case Platform.LinuxX64:
                 case Platform.LinuxArm:
-                    return `vscode-server-linux-${arch}-web.tar.gz`;
+                    return `${CONFIG.product.serverArchivePrefix}-linux-${arch}-web.tar.gz`;
                 case Platform.WindowsX64:
                 case Platform.WindowsArm:
-                    return `vscode-server-win32-${arch}-web.zip`;
+                    return `${CONFIG.product.serverArchivePrefix}-win32-${arch}-web.zip`;
             }
         }
 
@@ -222,9 +649,9 @@ class Builds {
         if (flavor !== Flavor.Cli) {
             switch (platform) {
                 case Platform.MacOSX64:
-                    return flavor === Flavor.DarwinUniversal ? 'VSCode-darwin-universal.zip' : 'VSCode-darwin.zip';
+                    return flavor === Flavor.DarwinUniversal ? `${CONFIG.product.archivePrefix}-darwin-universal.zip` : `${CONFIG.product.archivePrefix}-darwin.zip`;
                 case Platform.MacOSArm:
-                    return flavor === Flavor.DarwinUniversal ? 'VSCode-darwin-universal.zip' : `VSCode-darwin-${Arch.Arm64}.zip`;
+                    return flavor === Flavor.DarwinUniversal ? `${CONFIG.product.archivePrefix}-darwin-universal.zip` : `${CONFIG.product.archivePrefix}-darwin-${Arch.Arm64}.zip`;
                 case Platform.LinuxX64:
                 case Platform.LinuxArm:
                     return (await this.fetchBuildMeta({ runtime, commit, quality, flavor })).url.split('/').pop()!; // e.g. https://az764295.vo.msecnd.net/insider/807bf598bea406dcb272a9fced54697986e87768/code-insider-x64-1639979337.tar.gz
@@ -233,11 +660,11 @@ class Builds {
                     const buildMeta = await this.fetchBuildMeta({ runtime, commit, quality, flavor });
                     switch (flavor) {
                         case Flavor.Default:
-                            return `VSCode-win32-${arch}-${buildMeta.productVersion}.zip`;
+                            return `${CONFIG.product.archivePrefix}-win32-${arch}-${buildMeta.productVersion}.zip`;
                         case Flavor.WindowsSystemInstaller:
-                            return `VSCodeSetup-${arch}-${buildMeta.productVersion}.exe`;
+                            return `${CONFIG.product.archivePrefix}Setup-${arch}-${buildMeta.productVersion}.exe`;
                         case Flavor.WindowsUserInstaller:
-                            return `VSCodeUserSetup-${arch}-${buildMeta.productVersion}.exe`;
+                            return `${CONFIG.product.archivePrefix}UserSetup-${arch}-${buildMeta.productVersion}.exe`;
                     }
                 }
             }
@@ -246,17 +673,17 @@ class Builds {
         // CLI
         switch (platform) {
             case Platform.MacOSX64:
-                return 'vscode_cli_darwin_x64_cli.zip';
+                return `${CONFIG.product.cliArchivePrefix}_darwin_x64_cli.zip`;
             case Platform.MacOSArm:
-                return 'vscode_cli_darwin_arm64_cli.zip';
+                return `${CONFIG.product.cliArchivePrefix}_darwin_arm64_cli.zip`;
             case Platform.LinuxX64:
-                return 'vscode_cli_linux_x64_cli.tar.gz';
+                return `${CONFIG.product.cliArchivePrefix}_linux_x64_cli.tar.gz`;
             case Platform.LinuxArm:
-                return 'vscode_cli_linux_arm64_cli.tar.gz';
+                return `${CONFIG.product.cliArchivePrefix}_linux_arm64_cli.tar.gz`;
             case Platform.WindowsX64:
-                return 'vscode_cli_win32_x64_cli.zip';
+                return `${CONFIG.product.cliArchivePrefix}_win32_x64_cli.zip`;
             case Platform.WindowsArm:
-                return 'vscode_cli_win32_arm64_cli.zip';
+                return `${CONFIG.product.cliArchivePrefix}_win32_arm64_cli.zip`;
         }
     }
 
@@ -267,13 +694,13 @@ class Builds {
             switch (platform) {
                 case Platform.MacOSX64:
                 case Platform.MacOSArm:
-                    return `vscode-server-darwin-${arch}-web`;
+                    return `${CONFIG.product.serverArchivePrefix}-darwin-${arch}-web`;
                 case Platform.LinuxX64:
                 case Platform.LinuxArm:
-                    return `vscode-server-linux-${arch}-web`;
+                    return `${CONFIG.product.serverArchivePrefix}-linux-${arch}-web`;
                 case Platform.WindowsX64:
                 case Platform.WindowsArm:
-                    return `vscode-server-win32-${arch}-web`;
+                    return `${CONFIG.product.serverArchivePrefix}-win32-${arch}-web`;
             }
         }
 
@@ -282,25 +709,96 @@ class Builds {
             switch (platform) {
                 case Platform.MacOSX64:
                 case Platform.MacOSArm:
-                    return quality === 'insider' ? 'Visual Studio Code - Insiders.app' : 'Visual Studio Code.app';
+                    return `${getProductQuality(CONFIG.product, quality).nameLong}.app`;
                 case Platform.LinuxX64:
                 case Platform.LinuxArm:
-                    return `VSCode-linux-${arch}`;
+                    return `${CONFIG.product.archivePrefix}-linux-${arch}`;
                 case Platform.WindowsX64:
                 case Platform.WindowsArm: {
+                    if (localBuilds.isEnabled) {
+                        return (await this.getBuildDownloadName({ runtime, commit, quality, flavor })).replace(/\.zip$/i, ''); // extracted next to the archive
+                    }
+
                     const buildMeta = await this.fetchBuildMeta({ runtime, commit, quality, flavor });
 
-                    return `VSCode-win32-${arch}-${buildMeta.productVersion}`;
+                    return `${CONFIG.product.archivePrefix}-win32-${arch}-${buildMeta.productVersion}`;
                 }
             }
         }
 
         // CLI
-        return quality === 'insider' ? 'code-insiders' : 'code';
+        return getProductQuality(CONFIG.product, quality).applicationName;
     }
 
     private fetchBuildMeta({ runtime, commit, quality, flavor }: IBuild): Promise<IBuildMetadata> {
-        return jsonGet<IBuildMetadata>(`https://update.code.visualstudio.com/api/versions/commit:${commit}/${this.getPlatformName({ runtime, quality, flavor })}/${quality}`);
+        const url = `${CONFIG.updateUrl}/api/versions/commit:${commit}/${this.getPlatformName({ runtime, quality, flavor })}/${getProductQuality(CONFIG.product, quality).updateName}`;
+
+        // Share pending and completed requests for the same build,
+        // but allow to try again when a request failed
+        let meta = this.buildMetaCache.get(url);
+        if (!meta) {
+            meta = this.doFetchBuildMeta(url, { runtime, commit, quality, flavor });
+            meta.catch(() => this.buildMetaCache.delete(url));
+            this.buildMetaCache.set(url, meta);
+        }
+
+        return meta;
+    }
+
+    /**
+     * Metadata of a build never changes and is therefore
+     * stored on disk once fetched, e.g. for `--offline`.
+     */
+    private async doFetchBuildMeta(url: string, build: IBuild): Promise<IBuildMetadata> {
+        if (localBuilds.isEnabled) {
+            const { commit, timestamp, archive, sha256, productVersion } = localBuilds.get(build.commit);
+
+            return { url: archive, version: commit, productVersion: productVersion ?? 'unknown', timestamp, sha256hash: sha256 };
+        }
+
+        if (!CONFIG.refresh || CONFIG.offline) {
+            const cached = await this.readBuildMeta(build);
+            if (cached) {
+                return cached;
+            }
+        }
+
+        if (CONFIG.offline) {
+            throw new Error(`Metadata of build ${chalk.green(build.commit)} is not available offline.`);
+        }
+
+        const meta = await jsonGet<IBuildMetadata>(url);
+        await this.storeBuildMeta(build, meta);
+
+        return meta;
+    }
+
+    private async readBuildMeta(build: IBuild): Promise<IBuildMetadata | undefined> {
+        try {
+            return JSON.parse((await promises.readFile(this.getBuildMetaPath(build))).toString());
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private async storeBuildMeta(build: IBuild, meta: IBuildMetadata): Promise<void> {
+        try {
+            await promises.mkdir(BUILD_META_FOLDER, { recursive: true });
+            await promises.writeFile(this.getBuildMetaPath(build), JSON.stringify(meta));
+        } catch (error) {
+            LOGGER.trace(`${chalk.gray('[build]')} failed to store metadata of ${chalk.green(build.commit)}: ${error}`);
+        }
+    }
+
+    private getBuildMetaPath({ runtime, commit, quality, flavor }: IBuild): string {
+        return join(BUILD_META_FOLDER, `${this.getBuildMetaPrefix({ runtime, quality, flavor })}${commit}.json`);
+    }
+
+    private getBuildMetaPrefix({ runtime, quality, flavor }: IBuildKind): string {
+        const product = CONFIG.product.id === VSCODE_PRODUCT.id ? '' : `${CONFIG.product.id}-`; // keep existing caches of VS Code
+        const updateService = CONFIG.updateUrl === DEFAULT_UPDATE_URL ? '' : `${createHash('sha256').update(CONFIG.updateUrl).digest('hex').substring(0, 8)}-`; // metadata differs per update service
+
+        return `${product}${updateService}${quality}-${this.getPlatformName({ runtime, quality, flavor })}-`;
     }
 
     private getPlatformName({ runtime, flavor }: IBuildKind): string {
@@ -368,7 +866,14 @@ class Builds {
     }
 
     async getBuildExecutable({ runtime, commit, quality, flavor }: IBuild): Promise<string> {
-        const buildPath = getBuildPath(commit, quality, flavor);
+        const buildPath = this.getBuildFolder({ runtime, commit, quality, flavor });
+
+        // Local build with a custom executable
+        const executable = localBuilds.isEnabled ? localBuilds.get(commit).executable : undefined;
+        if (executable) {
+            return join(buildPath, executable);
+        }
+
         const buildName = await builds.getBuildName({ runtime, commit, quality, flavor });
 
         // Server
@@ -383,7 +888,7 @@ class Builds {
                         return oldLocation; // only valid until 1.64.x
                     }
 
-                    return join(buildPath, buildName, 'bin', quality === 'insider' ? 'code-server-insiders' : 'code-server');
+                    return join(buildPath, buildName, 'bin', getProductQuality(CONFIG.product, quality).serverApplicationName);
                 }
                 case Platform.WindowsX64:
                 case Platform.WindowsArm: {
@@ -392,7 +897,7 @@ class Builds {
                         return oldLocation; // only valid until 1.64.x
                     }
 
-                    return join(buildPath, buildName, buildName, 'bin', quality === 'insider' ? 'code-server-insiders.cmd' : 'code-server.cmd');
+                    return join(buildPath, buildName, buildName, 'bin', `${getProductQuality(CONFIG.product, quality).serverApplicationName}.cmd`);
                 }
             }
         }
@@ -402,7 +907,7 @@ class Builds {
             switch (platform) {
                 case Platform.MacOSX64:
                 case Platform.MacOSArm: {
-                    const newLocation = join(buildPath, buildName, 'Contents', 'MacOS', quality === 'insider' ? 'Code - Insiders' : 'Code');
+                    const newLocation = join(buildPath, buildName, 'Contents', 'MacOS', getProductQuality(CONFIG.product, quality).nameShort);
                     if (await exists(newLocation)) {
                         return newLocation; // valid from 1.110 onwards
                     }
@@ -410,10 +915,10 @@ class Builds {
                 }
                 case Platform.LinuxX64:
                 case Platform.LinuxArm:
-                    return join(buildPath, buildName, quality === 'insider' ? 'code-insiders' : 'code')
+                    return join(buildPath, buildName, getProductQuality(CONFIG.product, quality).applicationName)
                 case Platform.WindowsX64:
                 case Platform.WindowsArm:
-                    return join(buildPath, buildName, quality === 'insider' ? 'Code - Insiders.exe' : 'Code.exe');
+                    return join(buildPath, buildName, `${getProductQuality(CONFIG.product, quality).nameShort}.exe`);
             }
         }
 
@@ -432,3 +937,105 @@ class Builds {
 }
 
 export const builds = new Builds();
+
+/**
+ * Parses an ISO date (`2024-11-05`, `2024-11-05T10:00:00Z`) or a date
+ * relative to now in days or weeks (`3d`, `2w`) to milliseconds since
+ * epoch. Dates without time refer to the end of that day. Returns
+ * `undefined` if the value is not a date.
+ */
+export function parseDate(value: string, now = Date.now()): number | undefined {
+    const relative = /^(\d+)([dw])$/i.exec(value);
+    if (relative) {
+        const days = Number(relative[1]) * (relative[2].toLowerCase() === 'w' ? 7 : 1);
+
+        return now - days * 24 * 60 * 60 * 1000;
+    }
+
+    const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (day) {
+        const date = new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]), 23, 59, 59, 999);
+
+        return date.getMonth() === Number(day[2]) - 1 ? date.getTime() : undefined;
+    }
+
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+        const date = Date.parse(value);
+
+        return isNaN(date) ? undefined : date;
+    }
+
+    return undefined;
+}
+
+/**
+ * Formats the product version and date of a build,
+ * e.g. ` (1.96.0-insider, 11/1/2024, 10:00:00 AM)`.
+ */
+export function formatBuildInfo(info: IBuildInfo | undefined): string {
+    if (!info) {
+        return '';
+    }
+
+    if (typeof info.timestamp !== 'number') {
+        return ` (${chalk.green(info.productVersion)})`;
+    }
+
+    return ` (${chalk.green(info.productVersion)}, ${chalk.green(new Date(info.timestamp).toLocaleString())})`;
+}
+
+/**
+ * Splits builds (newest first) into the longest sequence that
+ * follows the order of the history (newest first) and those that
+ * are either not part of the history or out of order.
+ */
+export function partitionByHistory(buildsInRange: IBuild[], history: string[]): { builds: IBuild[], dropped: IBuild[] } {
+    const positions = new Map(history.map((commit, index) => [commit, index]));
+
+    // Length of the longest sequence of increasing positions
+    // that starts with each build, computed from the end
+    // (`heads[k]` is the largest position that starts such
+    // a sequence of length `k + 1`)
+    const lengths = new Array<number>(buildsInRange.length).fill(0);
+    const heads: number[] = [];
+    for (let i = buildsInRange.length - 1; i >= 0; i--) {
+        const position = positions.get(buildsInRange[i].commit);
+        if (typeof position !== 'number') {
+            continue;
+        }
+
+        let low = 0;
+        let high = heads.length;
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+            if (heads[middle] > position) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+
+        heads[low] = position;
+        lengths[i] = low + 1;
+    }
+
+    // Keep the first builds that continue the longest sequence
+    const builds: IBuild[] = [];
+    const dropped: IBuild[] = [];
+
+    let remaining = heads.length;
+    let lastPosition = -1;
+    for (let i = 0; i < buildsInRange.length; i++) {
+        const build = buildsInRange[i];
+        const position = positions.get(build.commit);
+        if (remaining > 0 && lengths[i] === remaining && typeof position === 'number' && position > lastPosition) {
+            builds.push(build);
+            lastPosition = position;
+            remaining--;
+        } else {
+            dropped.push(build);
+        }
+    }
+
+    return { builds, dropped };
+}
@@ -0,0 +1,79 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import chalk from 'chalk';
+import { promises } from 'node:fs';
+import { CONFIG_FILE } from './constants.js';
+import { IProduct, VSCODE_PRODUCT } from './product.js';
+
+/**
+ * Contents of the config file (`~/.vscode-bisect.json`).
+ */
+export interface IConfigFile {
+    readonly product?: string;
+    readonly updateUrl?: string;
+    readonly mirrors?: string[];
+}
+
+export interface IEndpoints {
+
+    /**
+     * Base URL of the update service, if the
+     * product is published to one.
+     */
+    readonly updateUrl: string | undefined;
+
+    /**
+     * Base URLs to download builds from when
+     * downloading from the original URL fails.
+     */
+    readonly mirrors: string[];
+}
+
+export async function readConfigFile(path = CONFIG_FILE): Promise<IConfigFile> {
+    let contents: string;
+    try {
+        contents = (await promises.readFile(path)).toString();
+    } catch (error) {
+        return {}; // no config file
+    }
+
+    try {
+        return JSON.parse(contents);
+    } catch (error) {
+        throw new Error(`Invalid config file ${chalk.green(path)}: ${error}`);
+    }
+}
+
+/**
+ * Resolves the update service and mirrors from command line
+ * flags, environment variables (`VSCODE_BISECT_UPDATE_URL`,
+ * `VSCODE_BISECT_MIRRORS`), the config file and the update
+ * service of the product, in that order.
+ */
+export function resolveEndpoints(flags: { updateUrl?: string, mirrors?: string[] }, env: NodeJS.ProcessEnv, configFile: IConfigFile, product: IProduct = VSCODE_PRODUCT): IEndpoints {
+    const updateUrl = flags.updateUrl ?? env.VSCODE_BISECT_UPDATE_URL ?? configFile.updateUrl ?? product.updateUrl;
+    const mirrors = flags.mirrors ?? env.VSCODE_BISECT_MIRRORS?.split(',').filter(mirror => !!mirror.trim()) ?? configFile.mirrors ?? [];
+
+    return {
+        updateUrl: updateUrl !== undefined ? toBaseUrl(updateUrl) : undefined,
+        mirrors: mirrors.map(toBaseUrl)
+    };
+}
+
+function toBaseUrl(value: string): string {
+    let url: URL;
+    try {
+        url = new URL(value.trim());
+    } catch (error) {
+        throw new Error(`Invalid URL ${chalk.green(value)}.`);
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error(`Invalid URL ${chalk.green(value)}, only ${chalk.green('http')} and ${chalk.green('https')} are supported.`);
+    }
+
+    return url.toString().replace(/\/+$/, '');
+}
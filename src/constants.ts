@@ -5,8 +5,11 @@
 
 import chalk from 'chalk';
 import { createRequire } from 'node:module';
-import { tmpdir } from 'node:os';
+import { homedir, tmpdir } from 'node:os';
 import { join } from 'node:path';
+import { IFlakyOptions } from './flaky.js';
+import { ICommitFilter } from './git.js';
+import { getProductQuality, IProduct, VSCODE_PRODUCT } from './product.js';
 
 const require = createRequire(import.meta.url);
 
@@ -15,6 +18,11 @@ const require = createRequire(import.meta.url);
 export const ROOT = join(process.platform === 'darwin' ? '/tmp' : tmpdir(), 'vscode-bisect');
 
 export const BUILD_FOLDER = join(ROOT, '.builds');
+export const LOCAL_BUILD_FOLDER = join(ROOT, '.local-builds');
+export const BUILD_META_FOLDER = join(ROOT, '.meta');
+export const BUILD_COMMITS_FOLDER = join(ROOT, '.commits');
+export const DEFAULT_COMMITS_CACHE_TTL = 10 * 60 * 1000;
+export const DEFAULT_PREFETCH_CONCURRENCY = 2;
 
 export const DATA_FOLDER = join(ROOT, '.data');
 export const USER_DATA_FOLDER = join(DATA_FOLDER, 'data');
@@ -26,16 +34,25 @@ export const GIT_REPO = 'https://github.com/microsoft/vscode.git';
 
 export const STORAGE_FILE = join(ROOT, 'storage.json');
 
+export const CONFIG_FILE = join(homedir(), '.vscode-bisect.json');
+
+export const DEFAULT_UPDATE_URL = VSCODE_PRODUCT.updateUrl!;
+
 export const DEFAULT_PERFORMANCE_FILE = join(ROOT, 'startup-perf.txt');
 export const PERFORMANCE_RUNS = 10;
 export const PERFORMANCE_RUN_TIMEOUT = 60000;
 
 export const VSCODE_DEV_URL = function (commit: string, quality: Quality) {
-    if (CONFIG.token) {
-        return `https://${quality === Quality.Insider ? 'insiders.' : ''}vscode.dev/github/microsoft/vscode/blob/main/package.json?vscode-version=${commit}`; // with auth state, we can use `github` route
+    const { webUrl, authenticatedWebUrl } = getProductQuality(CONFIG.product, quality);
+    if (!webUrl) {
+        throw new Error(`Product ${chalk.green(CONFIG.product.id)} has no web URL for ${chalk.green(quality)} builds.`);
+    }
+
+    if (CONFIG.token && authenticatedWebUrl) {
+        return authenticatedWebUrl.replace('{commit}', commit); // with auth state, we can use `github` route
     }
 
-    return `https://${quality === Quality.Insider ? 'insiders.' : ''}vscode.dev/?vscode-version=${commit}`;
+    return webUrl.replace('{commit}', commit);
 }
 
 export enum Arch {
@@ -99,24 +116,32 @@ export function runtimeFromString(value: unknown): Runtime {
     }
 }
 
-export enum Quality {
-    Insider = 'insider',
-    Stable = 'stable'
+/**
+ * Quality (channel) of builds. Besides the well known
+ * qualities, any quality of the product can be used
+ * (e.g. `exploration`).
+ */
+export type Quality = string;
+export const Quality = {
+    Insider: 'insider',
+    Stable: 'stable',
+    Exploration: 'exploration'
+} as const;
+
+export function isQuality(value: unknown): value is Quality {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CONFIG.product.qualities, value);
 }
 
 export function qualityFromString(value: unknown): Quality {
-    switch (value) {
-        case 'stable':
-            return Quality.Stable;
-        case 'insider':
-            return Quality.Insider;
-        default: {
-            if (typeof value === 'string') {
-                throw new Error(`Unknown quality: ${value}`);
-            }
-            return Quality.Insider;
-        }
+    if (isQuality(value)) {
+        return value;
     }
+
+    if (typeof value === 'string') {
+        throw new Error(`Unknown quality: ${value}. Please use one of ${Object.keys(CONFIG.product.qualities).map(quality => chalk.green(quality)).join(', ')}.`);
+    }
+
+    return Quality.Insider;
 }
 
 export enum Flavor {
@@ -178,10 +203,41 @@ export function isDockerCliFlavor(flavor: Flavor): flavor is Flavor.CliLinuxAmd6
         flavor === Flavor.CliAlpineArm64;
 }
 
+export interface ITerms {
+
+    /**
+     * Term for builds before the change, `good` by default.
+     */
+    readonly old: string;
+
+    /**
+     * Term for builds after the change, `bad` by default.
+     */
+    readonly new: string;
+}
+
+export const DEFAULT_TERMS: ITerms = { old: 'good', new: 'bad' };
+
+export const FIND_FIX_TERMS: ITerms = { old: 'broken', new: 'fixed' };
+
+export function termsFromString(value: string): ITerms {
+    const [newTerm, oldTerm, ...rest] = value.split(',').map(term => term.trim());
+    if (!newTerm || !oldTerm || rest.length > 0 || newTerm === oldTerm || !/^[a-z][\w-]*$/i.test(newTerm) || !/^[a-z][\w-]*$/i.test(oldTerm)) {
+        throw new Error(`Invalid terms: ${value}. Please provide two different words in the format of ${chalk.green('<new>,<old>')}, for example ${chalk.green('fixed,broken')}.`);
+    }
+
+    return { old: oldTerm, new: newTerm };
+}
+
+export function isDefaultTerms(terms: ITerms): boolean {
+    return terms.old === DEFAULT_TERMS.old && terms.new === DEFAULT_TERMS.new;
+}
+
 export const LOGGER = {
     verbose: false,
+    quiet: false,
     log: (message: string) => {
-        if (!isTesting() || LOGGER.verbose) {
+        if ((!isTesting() && !LOGGER.quiet) || LOGGER.verbose) {
             console.log(message);
         }
     },
@@ -196,6 +252,22 @@ export const CONFIG = {
     performance: false as boolean | string,
     token: undefined as string | undefined,
     args: [] as string[],
+    run: undefined as string | undefined,
+    log: undefined as string | undefined,
+    report: undefined as string | undefined,
+    perfThreshold: undefined as number | undefined,
+    perfRegression: undefined as number | undefined,
+    terms: DEFAULT_TERMS as ITerms,
+    flaky: undefined as IFlakyOptions | undefined,
+    commits: undefined as ICommitFilter | undefined,
+    verifyHistory: false,
+    updateUrl: DEFAULT_UPDATE_URL,
+    mirrors: [] as string[],
+    offline: false,
+    refresh: false,
+    commitsCacheTtl: DEFAULT_COMMITS_CACHE_TTL,
+    product: VSCODE_PRODUCT as IProduct,
+    prefetch: undefined as { concurrency: number, maxBytesPerSecond?: number } | undefined,
 }
 
 export function logTroubleshoot(): void {
@@ -0,0 +1,103 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import chalk from 'chalk';
+import { builds, formatBuildInfo, IBuild, IBuildInfo } from './builds.js';
+import { Flavor, LOGGER, Quality, Runtime } from './constants.js';
+import { git } from './git.js';
+
+export interface IContainingBuild extends IBuild {
+    readonly info?: IBuildInfo;
+}
+
+class Contains {
+
+    /**
+     * Finds the first insider build and the first stable release
+     * that contain the commit, based on the history of the local
+     * clone of VS Code.
+     */
+    async findFirstBuilds(commitish: string, { runtime, flavor }: { runtime: Runtime, flavor: Flavor }): Promise<{ commit: string, insider: IContainingBuild | undefined, stable: IContainingBuild | undefined }> {
+        const commit = await git.revParse(commitish);
+        if (!commit) {
+            throw new Error(`Commit ${chalk.green(commitish)} was not found in the local clone of VS Code.`);
+        }
+
+        LOGGER.log(`${chalk.gray('[contains]')} looking for builds containing ${chalk.green(commit)} (${await git.getSubject(commit)})...`);
+
+        // Insider: recent builds first, released builds when
+        // the commit is older than all recent builds
+        let insider = await this.findFirstBuild(commit, await builds.fetchBuilds({ runtime, quality: Quality.Insider, flavor }, undefined, undefined, false));
+        if (insider?.isOldest) {
+            insider = await this.findFirstBuild(commit, await builds.fetchBuilds({ runtime, quality: Quality.Insider, flavor }, undefined, undefined, true)) ?? insider;
+        }
+
+        // Stable: released builds only
+        const stable = await this.findFirstBuild(commit, await builds.fetchBuilds({ runtime, quality: Quality.Stable, flavor }, undefined, undefined, true));
+
+        return {
+            commit,
+            insider: insider ? { ...insider.build, info: await this.fetchBuildInfo(insider.build) } : undefined,
+            stable: stable ? { ...stable.build, info: await this.fetchBuildInfo(stable.build) } : undefined
+        };
+    }
+
+    logFirstBuilds({ commit, insider, stable }: { commit: string, insider: IContainingBuild | undefined, stable: IContainingBuild | undefined }): void {
+        LOGGER.log(`${chalk.gray('[contains]')} commit: ${chalk.green(`https://github.com/microsoft/vscode/commit/${commit}`)}`);
+
+        if (insider) {
+            LOGGER.log(`${chalk.gray('[contains]')} first insider build: ${chalk.green(insider.commit)}${formatBuildInfo(insider.info)} ${chalk.green(`https://github.com/microsoft/vscode/commit/${insider.commit}`)}`);
+        } else {
+            LOGGER.log(`${chalk.gray('[contains]')} ${chalk.yellow('not contained in any insider build yet')}`);
+        }
+
+        if (stable) {
+            const [major, minor] = stable.info?.productVersion.split('.') ?? [];
+            const releaseNotes = major && minor ? ` ${chalk.green(`https://code.visualstudio.com/updates/v${major}_${minor}`)}` : '';
+            LOGGER.log(`${chalk.gray('[contains]')} first stable release: ${chalk.green(stable.commit)}${formatBuildInfo(stable.info)}${releaseNotes}`);
+        } else {
+            LOGGER.log(`${chalk.gray('[contains]')} ${chalk.yellow('not contained in any stable release yet')}`);
+        }
+    }
+
+    /**
+     * Binary search for the oldest build (builds are newest first)
+     * that contains the commit, assuming that all newer builds
+     * contain the commit as well.
+     */
+    private async findFirstBuild(commit: string, buildsNewestFirst: IBuild[]): Promise<{ build: IBuild, isOldest: boolean } | undefined> {
+        let low = 0;
+        let high = buildsNewestFirst.length - 1;
+        let found: number | undefined = undefined;
+
+        while (low <= high) {
+            const middle = Math.floor((low + high) / 2);
+            if (await git.isAncestor(commit, buildsNewestFirst[middle].commit)) {
+                found = middle;
+                low = middle + 1;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        if (found === undefined) {
+            return undefined;
+        }
+
+        return { build: buildsNewestFirst[found], isOldest: found === buildsNewestFirst.length - 1 };
+    }
+
+    private async fetchBuildInfo(build: IBuild): Promise<IBuildInfo | undefined> {
+        try {
+            return await builds.fetchBuildInfo(build);
+        } catch (error) {
+            LOGGER.trace(`${chalk.gray('[contains]')} failed to fetch build info of ${chalk.green(build.commit)}: ${error}`);
+
+            return undefined;
+        }
+    }
+}
+
+export const contains = new Contains();
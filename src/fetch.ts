@@ -6,18 +6,51 @@
 import followRedirects from 'follow-redirects';
 import { createWriteStream, promises } from 'node:fs';
 import { dirname } from 'node:path';
-import { OutgoingHttpHeaders } from 'node:http';
+import { IncomingMessage, OutgoingHttpHeaders } from 'node:http';
+import { Transform, TransformCallback } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import chalk from 'chalk';
 import ProgressBar from 'progress';
 import EasyDl from 'easydl';
-import { LOGGER } from './constants.js';
+import { CONFIG, LOGGER } from './constants.js';
 
-const https = followRedirects.https;
+const { http, https } = followRedirects;
+
+export interface IDownloadProgress {
+    readonly url: string;
+
+    /**
+     * Downloaded and total size in bytes.
+     */
+    readonly downloaded: number;
+    readonly total: number;
+}
+
+export interface IDownloadOptions {
+
+    /**
+     * Cancels the download, mirrors are not tried then.
+     */
+    readonly signal?: AbortSignal;
+
+    /**
+     * Limits the bandwidth of the download.
+     */
+    readonly maxBytesPerSecond?: number;
+
+    /**
+     * Does not show a progress bar, e.g. for
+     * downloads in the background.
+     */
+    readonly silent?: boolean;
+}
 
 export function jsonGet<T>(url: string, headers?: OutgoingHttpHeaders): Promise<T> {
     return new Promise((resolve, reject) => {
-        https.get(url, { headers }, res => {
-            if (res.statusCode !== 200) {
+        const client = url.startsWith('http:') ? http : https; // e.g. a local stand-in for the update service
+        client.get(url, { headers }, res => {
+            if (!res.statusCode || res.statusCode < 200 || res.statusCode >= 300) {
+                res.resume();
                 reject(`Failed to get response from update server (code: ${res.statusCode}, message: ${res.statusMessage})`);
                 return;
             }
@@ -25,45 +58,181 @@ export function jsonGet<T>(url: string, headers?: OutgoingHttpHeaders): Promise<
             let data = '';
 
             res.on('data', chunk => data += chunk);
-            res.on('end', () => resolve(JSON.parse(data)));
+            res.on('end', () => {
+                try {
+                    resolve(JSON.parse(data));
+                } catch (error) {
+                    reject(`Invalid response from update server (${error})`); // e.g. truncated or an error page of a proxy
+                }
+            });
             res.on('error', err => reject(err));
-        });
+        }).on('error', err => reject(err));
     });
 }
 
-export async function fileGet(url: string, path: string): Promise<void> {
+/**
+ * Fetches JSON like `jsonGet` but sends the ETag of a previous
+ * response via `If-None-Match`. Resolves `undefined` when the
+ * server reports the previous response as not modified.
+ */
+export function jsonGetIfNoneMatch<T>(url: string, etag: string | undefined): Promise<{ value: T, etag?: string } | undefined> {
+    return new Promise((resolve, reject) => {
+        const client = url.startsWith('http:') ? http : https;
+        client.get(url, { headers: etag ? { 'If-None-Match': etag } : undefined }, res => {
+            if (res.statusCode === 304) {
+                res.resume();
+                resolve(undefined);
+                return;
+            }
+
+            if (!res.statusCode || res.statusCode < 200 || res.statusCode >= 300) {
+                res.resume();
+                reject(`Failed to get response from update server (code: ${res.statusCode}, message: ${res.statusMessage})`);
+                return;
+            }
+
+            let data = '';
+
+            res.on('data', chunk => data += chunk);
+            res.on('end', () => {
+                try {
+                    resolve({ value: JSON.parse(data), etag: res.headers.etag });
+                } catch (error) {
+                    reject(`Invalid response from update server (${error})`); // e.g. truncated or an error page of a proxy
+                }
+            });
+            res.on('error', err => reject(err));
+        }).on('error', err => reject(err));
+    });
+}
+
+/**
+ * Downloads the file from the URL and falls back to the
+ * configured mirrors (`CONFIG.mirrors`) when that fails.
+ */
+export async function fileGet(url: string, path: string, onProgress?: (progress: IDownloadProgress) => void, options?: IDownloadOptions): Promise<void> {
 
     // Ensure parent folder exists
     await promises.mkdir(dirname(path), { recursive: true });
 
+    const urls = [url, ...getMirrorUrls(url, CONFIG.mirrors)];
+    for (let i = 0; i < urls.length; i++) {
+        try {
+            return await download(urls[i], path, onProgress, options);
+        } catch (error) {
+            if (i === urls.length - 1 || options?.signal?.aborted) {
+                throw error;
+            }
+
+            LOGGER.log(`${chalk.gray('[fetch]')} ${chalk.yellow(`${error}`)}, trying mirror ${chalk.green(urls[i + 1])}...`);
+            await promises.rm(path, { force: true });
+        }
+    }
+}
+
+/**
+ * Maps the URL to the same path on each of the mirrors.
+ */
+export function getMirrorUrls(url: string, mirrors: string[]): string[] {
+    const { pathname, search } = new URL(url);
+
+    return mirrors.map(mirror => `${mirror}${pathname}${search}`);
+}
+
+async function download(url: string, path: string, onProgress?: (progress: IDownloadProgress) => void, options?: IDownloadOptions): Promise<void> {
+    if (options?.signal?.aborted) {
+        throw new Error(`Download of ${url} was cancelled`);
+    }
+
+    if (options?.maxBytesPerSecond) {
+        return throttledDownload(url, path, options.maxBytesPerSecond, onProgress, options.signal);
+    }
+
     try {
         const res = new EasyDl(url, path, { reportInterval: 250 });
 
-        const metadata = await res.metadata();
-        const totalSize = parseInt(metadata.headers?.['content-length']!, 10);
+        const onAbort = () => res.destroy();
+        options?.signal?.addEventListener('abort', onAbort, { once: true });
 
-        const bar = new ProgressBar(`${chalk.gray('[fetch]')} [:bar] :percent of ${(totalSize / 1024 / 1024).toFixed(2)} MB (:rate MB/s)`, {
-            complete: '▰',
-            incomplete: '▱',
-            width: 30,
-            total: totalSize / (1024 * 1024),
-            clear: true
-        });
+        try {
+            const metadata = await res.metadata();
+            const totalSize = parseInt(metadata.headers?.['content-length']!, 10);
 
-        let totalDownloaded = 0;
-        res.on('progress', report => {
-            const downloadIncrement = report.total.bytes! - totalDownloaded;
-            totalDownloaded = report.total.bytes!;
-            bar.tick(downloadIncrement / (1024 * 1024));
-        });
+            const bar = options?.silent ? undefined : new ProgressBar(`${chalk.gray('[fetch]')} [:bar] :percent of ${(totalSize / 1024 / 1024).toFixed(2)} MB (:rate MB/s)`, {
+                complete: '▰',
+                incomplete: '▱',
+                width: 30,
+                total: totalSize / (1024 * 1024),
+                clear: true
+            });
+
+            let totalDownloaded = 0;
+            res.on('progress', report => {
+                const downloadIncrement = report.total.bytes! - totalDownloaded;
+                totalDownloaded = report.total.bytes!;
+                bar?.tick(downloadIncrement / (1024 * 1024));
+                onProgress?.({ url, downloaded: totalDownloaded, total: totalSize });
+            });
+
+            res.on('error', err => LOGGER.trace(`${chalk.gray('[fetch]')} download error: ${err}`));
+
+            const result = await res.wait();
+            if (!result) {
+                throw new Error(options?.signal?.aborted ? 'Cancelled' : 'Unknown error');
+            }
+        } finally {
+            options?.signal?.removeEventListener('abort', onAbort);
+        }
+    } catch (error) {
+        throw new Error(`Failed to download file from ${url}: ${error}`);
+    }
+}
 
-        res.on('error', err => LOGGER.trace(`${chalk.gray('[fetch]')} download error: ${err}`));
+/**
+ * Streams the download through a throttle into a temporary
+ * file that is renamed once the download is complete.
+ */
+async function throttledDownload(url: string, path: string, maxBytesPerSecond: number, onProgress?: (progress: IDownloadProgress) => void, signal?: AbortSignal): Promise<void> {
+    const partialPath = `${path}.download`;
+    try {
+        const res = await new Promise<IncomingMessage>((resolve, reject) => {
+            const client = url.startsWith('http:') ? http : https;
+            client.get(url, { signal }, resolve).on('error', reject);
+        });
 
-        const result = await res.wait();
-        if (!result) {
-            throw new Error('Unknown error');
+        if (res.statusCode !== 200) {
+            res.resume();
+            throw new Error(`code: ${res.statusCode}, message: ${res.statusMessage}`);
         }
+
+        const total = parseInt(res.headers['content-length']!, 10);
+        const throttle = new Throttle(maxBytesPerSecond, downloaded => onProgress?.({ url, downloaded, total }));
+
+        await pipeline(res, throttle, createWriteStream(partialPath), { signal });
+        await promises.rename(partialPath, path);
     } catch (error) {
-        throw new Error(`Failed to download file from update server: ${error}`);
+        await promises.rm(partialPath, { force: true });
+
+        throw new Error(`Failed to download file from ${url}: ${error}`);
     }
-}
\ No newline at end of file
+}
+
+class Throttle extends Transform {
+
+    private readonly start = Date.now();
+    private bytes = 0;
+
+    constructor(private readonly maxBytesPerSecond: number, private readonly onBytes: (bytes: number) => void) {
+        super();
+    }
+
+    override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+        this.bytes += chunk.length;
+        this.onBytes(this.bytes);
+
+        // Hold the chunk back until the average rate is within
+        // the limit, the pipeline applies backpressure meanwhile
+        const delay = (this.bytes / this.maxBytesPerSecond) * 1000 - (Date.now() - this.start);
+        setTimeout(() => callback(null, chunk), Math.max(0, delay));
+    }
+}
@@ -6,10 +6,12 @@
 import chalk from 'chalk';
 import { spawnSync } from 'node:child_process';
 import { mkdirSync, promises, readFileSync, rmSync, writeFileSync } from 'node:fs';
-import { join } from 'node:path';
+import { join, relative } from 'node:path';
 import { createHash } from 'node:crypto';
 import { unzipSync } from 'fflate';
-import { BUILD_FOLDER, Flavor, LOGGER, Platform, platform, Quality, USER_DATA_FOLDER, EXTENSIONS_FOLDER } from './constants.js';
+import { BUILD_FOLDER, CONFIG, Flavor, LOCAL_BUILD_FOLDER, LOGGER, Platform, platform, Quality, USER_DATA_FOLDER, EXTENSIONS_FOLDER } from './constants.js';
+import { ILocalBuild } from './local.js';
+import { VSCODE_PRODUCT } from './product.js';
 
 export async function exists(path: string): Promise<boolean> {
     try {
@@ -30,8 +32,12 @@ export function getBuildPath(commit: string, quality: Quality, flavor: Flavor):
     }
 
     const prefixes: string[] = [];
-    if (quality === Quality.Stable) {
-        prefixes.push('stable');
+    if (CONFIG.product.id !== VSCODE_PRODUCT.id) {
+        prefixes.push(CONFIG.product.id);
+    }
+
+    if (quality !== Quality.Insider) {
+        prefixes.push(quality);
     }
 
     if (flavor !== Flavor.Default) {
@@ -45,6 +51,29 @@ export function getBuildPath(commit: string, quality: Quality, flavor: Flavor):
     return join(BUILD_FOLDER, uniqueFolderName);
 }
 
+/**
+ * Parses the commit (abbreviated on Windows) from the name of a
+ * folder created via `getBuildPath` for the quality and flavor.
+ */
+export function parseBuildPathCommit(folderName: string, quality: Quality, flavor: Flavor): string | undefined {
+    const prefix = relative(BUILD_FOLDER, getBuildPath('', quality, flavor));
+    const commit = folderName.startsWith(prefix) ? folderName.substring(prefix.length) : undefined;
+    const length = platform === Platform.WindowsX64 || platform === Platform.WindowsArm ? 6 : 40;
+
+    return commit && new RegExp(`^[0-9a-f]{${length}}$`).test(commit) ? commit : undefined;
+}
+
+/**
+ * Local builds (`--builds`) are kept apart from published builds
+ * in a folder keyed by the archive, so that a different archive
+ * of the same commit is never mistaken for a cached build.
+ */
+export function getLocalBuildPath({ commit, archive, sha256, timestamp }: ILocalBuild): string {
+    const key = createHash('sha256').update(`${archive}\n${sha256 ?? ''}\n${timestamp}`).digest('hex');
+
+    return join(LOCAL_BUILD_FOLDER, `${commit.substring(0, 6)}-${key.substring(0, 12)}`);
+}
+
 export async function unzip(source: string, destination: string): Promise<void> {
 
     // *.zip: macOS, Windows
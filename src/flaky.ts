@@ -0,0 +1,123 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Probabilistic bisection for issues that do not reproduce reliably:
+ * every build `c` is a hypothesis for "`c` is the first bad build",
+ * meaning all builds `0..c` (newer) are bad and all builds after `c`
+ * (older) are good. A bad build only reproduces the issue with the
+ * reproduction rate, while a good build (almost) never reproduces it.
+ *
+ * Like in a regular bisect, the newest and oldest build are tested
+ * as well instead of being assumed to be bad and good, so `count`
+ * builds result in `count + 1` hypotheses: hypothesis `h` of the
+ * posterior stands for build `h - 1` being the first bad build,
+ * where `h = 0` means that no build is bad.
+ */
+
+export interface IFlakyOptions {
+
+    /**
+     * Probability of the issue to reproduce on a bad build.
+     */
+    readonly reproductionRate: number;
+
+    /**
+     * Probability the most likely build needs to reach
+     * to be reported as the first bad build.
+     */
+    readonly confidence: number;
+}
+
+export interface IFlakyObservation {
+    readonly index: number;
+    readonly bad: boolean;
+}
+
+export const DEFAULT_FLAKY_OPTIONS: IFlakyOptions = { reproductionRate: 0.5, confidence: 0.95 };
+
+// Probability of a good build to be reported as bad, e.g. due to
+// a wrong answer. Keeps a single wrong answer from ruling out the
+// actual first bad build forever.
+const FALSE_BAD_RATE = 0.001;
+
+export function computePosterior(count: number, observations: IFlakyObservation[], { reproductionRate }: IFlakyOptions): number[] {
+    const hypotheses = count + 1;
+    const posterior = new Array<number>(hypotheses).fill(1 / hypotheses);
+
+    for (const { index, bad } of observations) {
+        const updated = posterior.map((probability, hypothesis) => {
+            const badRate = index < hypothesis ? reproductionRate : FALSE_BAD_RATE;
+
+            return probability * (bad ? badRate : 1 - badRate);
+        });
+
+        const total = updated.reduce((sum, probability) => sum + probability, 0);
+        if (total === 0) {
+            continue; // observation is impossible under all hypotheses, ignore it
+        }
+
+        for (let hypothesis = 0; hypothesis < hypotheses; hypothesis++) {
+            posterior[hypothesis] = updated[hypothesis] / total;
+        }
+    }
+
+    return posterior;
+}
+
+/**
+ * Finds the most likely first bad build, `-1` if most
+ * likely no build is bad.
+ */
+export function findMostLikely(posterior: number[]): { index: number, probability: number } {
+    let hypothesis = 0;
+    for (let i = 1; i < posterior.length; i++) {
+        if (posterior[i] > posterior[hypothesis]) {
+            hypothesis = i;
+        }
+    }
+
+    return { index: hypothesis - 1, probability: posterior[hypothesis] };
+}
+
+/**
+ * Finds the build to test next that maximises the expected
+ * information gain (mutual information between the answer
+ * and the first bad build) or `undefined` if no build can
+ * be tested anymore.
+ */
+export function findMostInformativeIndex(posterior: number[], { reproductionRate }: IFlakyOptions, skipped: Set<number>): number | undefined {
+    let bestIndex: number | undefined = undefined;
+    let bestGain = -1;
+
+    // Probability that the build at the index is bad, i.e. that the
+    // first bad build is the same or older (sum of posterior after
+    // the index to the end)
+    let probabilityBad = posterior.reduce((sum, probability) => sum + probability, 0) - posterior[0];
+
+    for (let index = 0; index < posterior.length - 1; index++) {
+        if (!skipped.has(index)) {
+            const probabilityBadAnswer = probabilityBad * reproductionRate + (1 - probabilityBad) * FALSE_BAD_RATE;
+            const gain = entropy(probabilityBadAnswer) - probabilityBad * entropy(reproductionRate) - (1 - probabilityBad) * entropy(FALSE_BAD_RATE);
+
+            if (gain > bestGain) {
+                bestGain = gain;
+                bestIndex = index;
+            }
+        }
+
+        probabilityBad -= posterior[index + 1];
+    }
+
+    return bestIndex;
+}
+
+function entropy(probability: number): number {
+    if (probability <= 0 || probability >= 1) {
+        return 0;
+    }
+
+    return -probability * Math.log2(probability) - (1 - probability) * Math.log2(1 - probability);
+}
@@ -6,14 +6,54 @@
 import chalk from 'chalk';
 import { mkdirSync } from 'node:fs';
 import simpleGit from 'simple-git';
-import { GIT_FOLDER, GIT_REPO, GIT_VSCODE_FOLDER, LOGGER } from './constants.js';
+import { CONFIG, GIT_FOLDER, GIT_REPO, GIT_VSCODE_FOLDER, LOGGER } from './constants.js';
 import { exists } from './files.js';
 
-class Git {
+export interface ICommit {
+    readonly sha: string;
+    readonly subject: string;
+    readonly author: string;
 
-    static {
-        mkdirSync(GIT_FOLDER, { recursive: true });
-    }
+    /**
+     * Author date in ISO format.
+     */
+    readonly date: string;
+
+    /**
+     * Number of the pull request that merged the
+     * commit if any.
+     */
+    readonly pullRequest?: number;
+}
+
+export interface ICommitFilter {
+
+    /**
+     * Path globs (e.g. `src/vs/editor/**`) of which
+     * at least one must be changed by a commit.
+     */
+    readonly paths?: string[];
+
+    /**
+     * Patterns of which at least one must match
+     * the author name or email of a commit.
+     */
+    readonly authors?: string[];
+}
+
+export interface IChangedArea {
+
+    /**
+     * Top-level layer or contribution, for example
+     * `src/vs/workbench/contrib/chat` or `extensions/git`.
+     */
+    readonly area: string;
+
+    readonly linesChanged: number;
+    readonly commits: number;
+}
+
+class Git {
 
     private _whenReady: Promise<void> | undefined = undefined;
     get whenReady(): Promise<void> {
@@ -26,6 +66,17 @@ class Git {
 
     private async init(): Promise<void> {
 
+        // Use the clone as is when offline
+        if (CONFIG.offline) {
+            if (!await exists(GIT_VSCODE_FOLDER)) {
+                throw new Error(`A local clone of VS Code is required but not available offline.`);
+            }
+
+            return;
+        }
+
+        mkdirSync(GIT_FOLDER, { recursive: true });
+
         // Bring up to date otherwise
         if (await exists(GIT_VSCODE_FOLDER)) {
             LOGGER.log(`${chalk.gray('[git]')} pulling latest changes into ${chalk.green(GIT_FOLDER)}...`);
@@ -43,6 +94,198 @@ class Git {
             await git.clone(GIT_REPO, GIT_VSCODE_FOLDER);
         }
     }
+
+    /**
+     * Whether a local clone exists already, without
+     * cloning or updating it.
+     */
+    hasClone(): Promise<boolean> {
+        return exists(GIT_VSCODE_FOLDER);
+    }
+
+    /**
+     * Resolves a full or abbreviated commit hash to the full
+     * commit hash or `undefined` if the commit is unknown.
+     */
+    async revParse(commit: string): Promise<string | undefined> {
+        await this.whenReady;
+
+        const git = simpleGit.default({ baseDir: GIT_VSCODE_FOLDER });
+        try {
+            return (await git.raw(['rev-parse', '--verify', '--quiet', `${commit}^{commit}`])).trim() || undefined;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Whether `ancestor` is part of the history of `commit`.
+     */
+    async isAncestor(ancestor: string, commit: string): Promise<boolean> {
+        await this.whenReady;
+
+        // `merge-base --is-ancestor` exits with 1 without any output
+        // if `ancestor` is not part of the history of `commit`
+        let exitCode = 0;
+        const git = simpleGit.default({
+            baseDir: GIT_VSCODE_FOLDER,
+            errors: (error, result) => {
+                exitCode = result.exitCode;
+
+                return error;
+            }
+        });
+        try {
+            await git.raw(['merge-base', '--is-ancestor', ancestor, commit]);
+
+            return exitCode === 0;
+        } catch (error) {
+            LOGGER.trace(`${chalk.gray('[git]')} unable to compare ${chalk.green(ancestor)} with ${chalk.green(commit)}: ${error}`);
+
+            return false; // e.g. unknown commit
+        }
+    }
+
+    /**
+     * Commit date in milliseconds since epoch.
+     */
+    async getCommitDate(commit: string): Promise<number> {
+        await this.whenReady;
+
+        const git = simpleGit.default({ baseDir: GIT_VSCODE_FOLDER });
+
+        return Number((await git.raw(['log', '-1', '--format=%ct', commit])).trim()) * 1000;
+    }
+
+    async getSubject(commit: string): Promise<string> {
+        await this.whenReady;
+
+        const git = simpleGit.default({ baseDir: GIT_VSCODE_FOLDER });
+
+        return (await git.raw(['log', '-1', '--format=%s', commit])).trim();
+    }
+
+    /**
+     * Lists all commits that are part of the history of `main`
+     * (the commits `merge-base --is-ancestor <commit> main` accepts,
+     * including those merged via a second parent), newest first in
+     * topological order. Builds are created from these commits.
+     */
+    async listMainCommits(): Promise<string[]> {
+        await this.whenReady;
+
+        const git = simpleGit.default({ baseDir: GIT_VSCODE_FOLDER });
+        const output = await git.raw(['rev-list', '--topo-order', 'main']);
+
+        return output.split('\n').filter(line => !!line);
+    }
+
+    /**
+     * Lists the commits on the first parent line between both
+     * commits (excluding `from`), newest first. On `main`, these
+     * are merges of pull requests and commits pushed directly.
+     */
+    async listCommits(from: string, to: string, filter?: ICommitFilter): Promise<ICommit[]> {
+        await this.whenReady;
+
+        const args = ['log', '--first-parent', '--format=%H%x00%an%x00%aI%x00%s'];
+        for (const author of filter?.authors ?? []) {
+            args.push(`--author=${author}`);
+        }
+
+        args.push(`${from}..${to}`);
+
+        if (filter?.paths && filter.paths.length > 0) {
+            args.push('--', ...filter.paths.map(path => `:(glob)${path}`));
+        }
+
+        const git = simpleGit.default({ baseDir: GIT_VSCODE_FOLDER });
+        const output = await git.raw(args);
+
+        return output.split('\n').filter(line => !!line).map(line => {
+            const [sha, author, date, subject] = line.split('\0');
+
+            return { sha, subject, author, date, pullRequest: parsePullRequest(subject) };
+        });
+    }
+
+    /**
+     * Groups the changes between both commits by area,
+     * ranked by lines changed and number of commits.
+     */
+    async listChangedAreas(from: string, to: string): Promise<IChangedArea[]> {
+        await this.whenReady;
+
+        const git = simpleGit.default({ baseDir: GIT_VSCODE_FOLDER });
+        const areas = new Map<string, { linesChanged: number, commits: Set<string> }>();
+        const getArea = (path: string) => {
+            const area = toArea(path);
+            let entry = areas.get(area);
+            if (!entry) {
+                entry = { linesChanged: 0, commits: new Set() };
+                areas.set(area, entry);
+            }
+
+            return entry;
+        };
+
+        // Lines changed per file (binary files are reported as `-`)
+        const diff = await git.raw(['diff', '--numstat', from, to]);
+        for (const line of diff.split('\n')) {
+            const [added, deleted, path] = line.split('\t');
+            if (path) {
+                getArea(path).linesChanged += (parseInt(added, 10) || 0) + (parseInt(deleted, 10) || 0);
+            }
+        }
+
+        // Commits per area, comparing merges with their first parent
+        const log = await git.raw(['log', '--first-parent', '--diff-merges=first-parent', '--name-only', '--format=%x00%H', `${from}..${to}`]);
+        for (const entry of log.split('\0').filter(entry => !!entry.trim())) {
+            const [sha, ...paths] = entry.split('\n').filter(line => !!line);
+            for (const path of paths) {
+                getArea(path).commits.add(sha);
+            }
+        }
+
+        return Array.from(areas.entries())
+            .map(([area, { linesChanged, commits }]) => ({ area, linesChanged, commits: commits.size }))
+            .sort((a, b) => b.linesChanged - a.linesChanged || b.commits - a.commits);
+    }
+}
+
+export const git = new Git();
+
+/**
+ * Maps a file path to its top-level layer or contribution:
+ * - `src/vs/<layer>/{contrib,services}/<name>`
+ * - `src/vs/<layer>/<folder>`
+ * - `extensions/<name>`
+ * - the top-level folder otherwise
+ */
+export function toArea(path: string): string {
+    const segments = path.split('/');
+    const folders = segments.slice(0, -1);
+
+    if (folders[0] === 'src' && folders[1] === 'vs') {
+        const depth = folders[3] === 'contrib' || folders[3] === 'services' ? 5 : 4;
+
+        return folders.slice(0, depth).join('/');
+    }
+
+    if (folders[0] === 'extensions') {
+        return folders.slice(0, 2).join('/');
+    }
+
+    return folders[0] ?? '(root)';
 }
 
-export const git = new Git();
\ No newline at end of file
+/**
+ * Parses the pull request number from the subject of a merge
+ * commit (`Merge pull request #123 from ...`) or a squashed
+ * commit (`Subject (#123)`).
+ */
+export function parsePullRequest(subject: string): number | undefined {
+    const matches = /^Merge pull request #(\d+)/.exec(subject) ?? /\(#(\d+)\)\s*$/.exec(subject);
+
+    return matches ? parseInt(matches[1], 10) : undefined;
+}
\ No newline at end of file
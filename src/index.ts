@@ -6,15 +6,21 @@
 import chalk from 'chalk';
 import { program, Option } from 'commander';
 import { rmSync, truncateSync } from 'node:fs';
-import prompts from 'prompts';
 import { resolve } from 'node:path';
 import { createRequire } from 'node:module';
 import { bisecter } from './bisect.js';
 import { git } from './git.js';
-import { BUILD_FOLDER, CONFIG, Flavor, flavorFromString, isDockerCliFlavor, LOGGER, logTroubleshoot, Quality, qualityFromString, ROOT, Runtime, runtimeFromString } from './constants.js';
+import { BUILD_FOLDER, CONFIG, CONFIG_FILE, DEFAULT_PREFETCH_CONCURRENCY, DEFAULT_UPDATE_URL, FIND_FIX_TERMS, Flavor, flavorFromString, isDockerCliFlavor, LOGGER, logTroubleshoot, Quality, qualityFromString, ROOT, Runtime, runtimeFromString, termsFromString } from './constants.js';
 import { builds, IBuildKind } from './builds.js';
 import { exists } from './files.js';
 import { sanity } from './sanity.js';
+import { contains } from './contains.js';
+import { DEFAULT_FLAKY_OPTIONS } from './flaky.js';
+import { readConfigFile, resolveEndpoints } from './config.js';
+import { localBuilds } from './local.js';
+import { loadProduct, VSCODE_PRODUCT } from './product.js';
+
+export * from './api.js';
 
 const require = createRequire(import.meta.url);
 
@@ -25,33 +31,105 @@ export default async function main(argv: string[]): Promise<void> {
             runtime?: 'web' | 'desktop' | 'vscode.dev';
             commit?: string;
             version?: string;
-            quality?: 'insider' | 'stable';
+            quality?: string;
             flavor?: string;
             good?: string;
             bad?: string;
+            fixed?: string;
+            broken?: string;
             exclude?: string[];
             releasedOnly?: boolean;
             sanity?: boolean;
             verbose?: boolean;
             reset?: boolean;
             perf?: boolean | string;
+            perfThreshold?: string;
+            perfRegression?: string;
             token?: string;
+            run?: string;
+            log?: string;
+            report?: string;
+            listCommits?: boolean;
+            verifyHistory?: boolean;
+            path?: string[];
+            author?: string[];
+            replay?: string;
+            terms?: string;
+            findFix?: boolean;
+            flaky?: boolean | string;
+            confidence?: string;
+            stableFirst?: boolean;
+            updateUrl?: string;
+            mirror?: string[];
+            offline?: boolean;
+            refresh?: boolean;
+            cacheTtl?: string;
+            builds?: string;
+            product?: string;
+            prefetch?: boolean;
+            prefetchConcurrency?: string;
+            prefetchLimit?: string;
+        }
+
+        interface ContainsOpts {
+            runtime?: 'web' | 'desktop' | 'vscode.dev';
+            flavor?: string;
+            launch?: 'insider' | 'stable';
         }
 
         program.addHelpText('beforeAll', `Version: ${chalk.green(require('../package.json').version)}\n`);
 
+        const runtimeOption = new Option('-r, --runtime <desktop|web|vscode.dev>', 'whether to bisect with a local web, online vscode.dev or local desktop (default) version').choices(['desktop', 'web', 'vscode.dev']);
+        const flavorOption = new Option('-f, --flavor <flavor>', 'flavor of a published build to test (only applies when testing desktop builds)').choices(['universal', 'cli', 'win32-user', 'win32-system', 'linux-deb', 'linux-rpm', 'linux-snap', 'cli-linux-amd64', 'cli-linux-arm64', 'cli-linux-armv7', 'cli-alpine-amd64', 'cli-alpine-arm64']);
+
+        let containsCommand: { commit: string, opts: ContainsOpts } | undefined;
+        program
+            .command('contains <commit>')
+            .description('finds the first insider build and stable release that contain the commit using a local clone of VS Code')
+            .addOption(runtimeOption)
+            .addOption(flavorOption)
+            .addOption(new Option('--launch <insider|stable>', 'launches the first build of the quality that contains the commit').choices(['insider', 'stable']))
+            .action((commit: string, opts: ContainsOpts) => { containsCommand = { commit, opts }; });
+
         program
-            .addOption(new Option('-r, --runtime <desktop|web|vscode.dev>', 'whether to bisect with a local web, online vscode.dev or local desktop (default) version').choices(['desktop', 'web', 'vscode.dev']))
+            .addOption(runtimeOption)
             .option('-c, --commit <commit|latest>', 'commit hash of a published build to test or "latest" released build (supercedes -g and -b)')
             .option('-v, --version <major.minor>', 'version of a published build to test, for example 1.93 (supercedes -g, -b and -c)')
-            .addOption(new Option('-q, --quality <insider|stable>', 'quality of a published build to test, defaults to "insider"').choices(['insider', 'stable']))
-            .addOption(new Option('-f, --flavor <flavor>', 'flavor of a published build to test (only applies when testing desktop builds)').choices(['universal', 'cli', 'win32-user', 'win32-system', 'linux-deb', 'linux-rpm', 'linux-snap', 'cli-linux-amd64', 'cli-linux-arm64', 'cli-linux-armv7', 'cli-alpine-amd64', 'cli-alpine-arm64']))
-            .option('-g, --good <commit|version>', 'commit hash or version of a published build that does not reproduce the issue')
-            .option('-b, --bad <commit|version>', 'commit hash or version of a published build that reproduces the issue')
+            .option('-q, --quality <quality>', 'quality (channel) of a published build to test, for example "stable" or "exploration", defaults to "insider"')
+            .addOption(flavorOption)
+            .option('-g, --good <commit|version|date>', 'commit hash, version or date (e.g. 2024-11-05 or 2w for two weeks ago) of a published build that does not reproduce the issue (older end of the range with --terms)')
+            .option('-b, --bad <commit|version|date>', 'commit hash, version or date (e.g. 2024-11-05 or 2w for two weeks ago) of a published build that reproduces the issue (newer end of the range with --terms)')
+            .option('--terms <new,old>', 'terms to use instead of "bad" and "good" for newer and older builds, for example "fixed,broken"')
+            .option('--find-fix', 'finds the first build that fixed an issue (same as --terms fixed,broken)')
+            .option('--fixed <commit|version|date>', 'commit hash, version or date of the newer build that no longer reproduces the issue (same as --find-fix --bad)')
+            .option('--broken <commit|version|date>', 'commit hash, version or date of the older build that reproduces the issue (same as --find-fix --good)')
             .option('--exclude <commits...>', 'commit hashes to exclude from bisecting (can be specified multiple times)')
+            .option('--flaky [rate]', `bisects probabilistically for issues that do not always reproduce, optionally with the rate at which the issue reproduces on bad builds (default ${DEFAULT_FLAKY_OPTIONS.reproductionRate * 100}%)`)
+            .option('--confidence <percent>', `with --flaky, the confidence a build needs to reach to be reported (default ${DEFAULT_FLAKY_OPTIONS.confidence * 100}%)`)
             .option('--releasedOnly', 'only bisect over released builds to support older builds')
+            .option('--stable-first', 'bisects released stable builds first and then the insider builds between the last good and first bad release to support regressions spanning many months')
+            .option('--run <script>', 'runs the script for each build instead of prompting: exit code 0 means good, 125 means skip, 1-127 means bad and anything else aborts')
+            .option('--log <file>', 'appends every bisect step to the file to be able to replay it later')
+            .option('--report <file>', 'writes a report of the bisect result to the file, as JSON for .json files or as Markdown otherwise')
+            .option('--verify-history', 'drops insider builds that are not on the main branch or out of order using a local clone of VS Code')
+            .option('--list-commits', 'lists the commits, pull requests and changed areas between the good and bad build from a local clone of VS Code after bisecting')
+            .option('--path <globs...>', 'with --list-commits, only lists commits changing files matching the globs, for example "src/vs/editor/**"')
+            .option('--author <patterns...>', 'with --list-commits, only lists commits of authors matching the patterns')
+            .option('--replay <file>', 'restores the bisect state from a file written via --log and continues bisecting')
+            .option('--product <vscode|code-oss|file>', 'product to bisect: "vscode" (default), "code-oss" or a JSON file describing a fork (see below)')
+            .option('--update-url <url>', 'base URL of the update service to fetch builds from, defaults to VSCODE_BISECT_UPDATE_URL, the config file or https://update.code.visualstudio.com')
+            .option('--mirror <urls...>', 'base URLs of mirrors to download builds from when downloading from the update service fails, defaults to VSCODE_BISECT_MIRRORS (comma separated) or the config file')
+            .option('--builds <dir|manifest>', 'bisects over local builds instead of published builds: archives with a commit hash in their name in a directory or a JSON manifest (see below)')
+            .option('--offline', 'only uses builds that were downloaded before without accessing the network')
+            .option('--refresh', 'fetches the list of builds and their metadata again instead of using the cache')
+            .option('--cache-ttl <duration>', 'how long to use the cached list of builds before checking for new builds, for example 30s or 1h (defaults to 10m)')
+            .option('--no-prefetch', 'does not download the builds to try next in the background while testing a build')
+            .option('--prefetch-concurrency <count>', `how many builds to download in the background at the same time (defaults to ${DEFAULT_PREFETCH_CONCURRENCY})`)
+            .option('--prefetch-limit <rate>', 'limits the total bandwidth of background downloads, for example 500KB/s or 5MB/s')
             .option('--reset', 'deletes the cache folder (use only for troubleshooting)')
             .addOption(new Option('-p, --perf [path]', 'runs a performance test and optionally writes the result to the provided path').hideHelp())
+            .addOption(new Option('--perf-threshold <duration>', 'with --perf, classifies builds as bad when their median startup time exceeds the duration, for example 1200ms or 1.2s').hideHelp())
+            .addOption(new Option('--perf-regression <percent>', 'with --perf, classifies builds as bad when their median startup time exceeds the one of the good build by the percentage, for example 15%').hideHelp())
             .addOption(new Option('-t, --token <token>', `a GitHub token of scopes 'repo', 'workflow', 'user:email', 'read:user' to enable additional performance tests targetting web`).hideHelp())
             .option('-s, --sanity', 'runs multiple flavors of a build for sanity testing purposes (requires --commit with a commit hash)')
             .option('--verbose', 'logs verbose output to the console when errors occur');
@@ -59,12 +137,33 @@ export default async function main(argv: string[]): Promise<void> {
         program.enablePositionalOptions();
         program.passThroughOptions();
         program.argument('[args...]', 'additional arguments to pass to VSCode (use -- to separate)');
+        program.action(() => { /* handled below */ });
 
         program.addHelpText('after', `
 ${chalk.bold('Note:')} if no commit is specified, the last 200 builds will be bisected. Use ${chalk.green('\'--releasedOnly\'')} to only consider released builds for testing older builds.
 
+${chalk.bold('Find a fix:')} use ${chalk.green('--find-fix')} to find the first build that fixed an issue, e.g. ${chalk.green('vscode-bisect --find-fix --good 1.90 --bad 1.95')} where ${chalk.green('--bad')} is the newer (fixed) and ${chalk.green('--good')} the older (broken) build, or use ${chalk.green('vscode-bisect --broken 1.90 --fixed 1.95')} instead.
+
+${chalk.bold('Old regressions:')} use ${chalk.green('--stable-first')} to bisect stable releases first and then the insider builds in between, e.g. ${chalk.green('vscode-bisect --stable-first --good 1.80 --bad 1.95')} where the versions are stable releases.
+
+${chalk.bold('Flaky issues:')} use ${chalk.green('--flaky 30%')} when an issue only reproduces some of the time, builds may then be tested more than once until a build is found with ${chalk.green('--confidence')}.
+
+${chalk.bold('First build with a commit:')} use ${chalk.green('vscode-bisect contains <commit>')} to find the first insider build and stable release that contain a commit, ${chalk.green('--launch insider')} launches that build.
+
 ${chalk.bold('Pass arguments to VSCode:')} use ${chalk.green('--')} to separate, e.g. ${chalk.green('vscode-bisect --commit latest -- --enable-proposed-api')}
 
+${chalk.bold('Automated bisect:')} the ${chalk.green('--run')} script receives ${chalk.green('VSCODE_BISECT_EXECUTABLE')} (or ${chalk.green('VSCODE_BISECT_URL')} for vscode.dev), ${chalk.green('VSCODE_BISECT_COMMIT')}, ${chalk.green('VSCODE_BISECT_QUALITY')}, ${chalk.green('VSCODE_BISECT_USER_DATA_DIR')} and ${chalk.green('VSCODE_BISECT_EXTENSIONS_DIR')} as environment variables.
+
+${chalk.bold('Local builds:')} use ${chalk.green('--builds <manifest.json>')} to bisect over builds that are not published, e.g. ${chalk.green('{ "builds": [{ "commit": "<hash>", "date": "2024-11-05T10:00:00Z", "archive": "<path or url>", "sha256": "<optional>", "version": "<optional>", "executable": "<optional, e.g. VSCode-linux-x64/code-oss>" }] }')}
+
+${chalk.bold('Background downloads:')} while a build is tested, the builds to try next (one for each answer) are downloaded in the background, use ${chalk.green('--prefetch-limit 5MB/s')} to limit the bandwidth or ${chalk.green('--no-prefetch')} to turn this off.
+
+${chalk.bold('Offline:')} use ${chalk.green('--offline')} to bisect over builds that were downloaded before, e.g. when the network is unreliable.
+
+${chalk.bold('Products:')} use ${chalk.green('--product code-oss')} with ${chalk.green('--builds')} or ${chalk.green('--update-url')} to bisect Code - OSS builds, or ${chalk.green('--product <product.json>')} for a fork, e.g. ${chalk.green('{ "id": "my-fork", "updateUrl": "https://update.example.com", "archivePrefix": "MyFork", "qualities": { "insider": { "applicationName": "my-fork-insiders", "nameShort": "My Fork - Insiders", "nameLong": "My Fork - Insiders", "webUrl": "https://insiders.example.com/?vscode-version={commit}" } } }')} where missing properties are taken from ${chalk.green('vscode')} (or the product in ${chalk.green('"extends"')}).
+
+${chalk.bold('Config file:')} ${chalk.green(CONFIG_FILE)} with ${chalk.green('product')}, ${chalk.green('updateUrl')} and ${chalk.green('mirrors')}, command line flags and environment variables take precedence.
+
 ${chalk.bold('Storage:')} ${chalk.green(BUILD_FOLDER)}
     `);
 
@@ -76,6 +175,31 @@ ${chalk.bold('Storage:')} ${chalk.green(BUILD_FOLDER)}
             LOGGER.verbose = true;
         }
 
+        if (opts.offline) {
+            if (opts.reset) {
+                throw new Error(`Deleting the cache folder via ${chalk.green('--reset')} cannot be combined with ${chalk.green('--offline')}.`);
+            }
+
+            if (opts.runtime === 'vscode.dev' || isDockerCliFlavor(flavorFromString(opts.flavor))) {
+                throw new Error(`Testing ${chalk.green(opts.runtime === 'vscode.dev' ? 'vscode.dev' : opts.flavor)} requires network access and cannot be combined with ${chalk.green('--offline')}.`);
+            }
+
+            if (opts.refresh) {
+                throw new Error(`Refreshing the cache via ${chalk.green('--refresh')} cannot be combined with ${chalk.green('--offline')}.`);
+            }
+
+            CONFIG.offline = true;
+            LOGGER.log(`${chalk.gray('[build]')} running offline, only builds downloaded before are available`);
+        }
+
+        if (opts.refresh) {
+            CONFIG.refresh = true;
+        }
+
+        if (opts.cacheTtl) {
+            CONFIG.commitsCacheTtl = parseDuration(opts.cacheTtl);
+        }
+
         if (opts.reset) {
             try {
                 LOGGER.log(`${chalk.gray('[build]')} deleting cache directory ${chalk.green(ROOT)}`);
@@ -83,12 +207,153 @@ ${chalk.bold('Storage:')} ${chalk.green(BUILD_FOLDER)}
             } catch (error) { }
         }
 
+        const configFile = await readConfigFile();
+
+        // Product
+        const productIdOrPath = opts.product ?? configFile.product;
+        if (productIdOrPath) {
+            CONFIG.product = await loadProduct(productIdOrPath);
+            if (CONFIG.product.id !== VSCODE_PRODUCT.id) {
+                LOGGER.log(`${chalk.gray('[build]')} using product ${chalk.green(CONFIG.product.id)}`);
+            }
+        }
+
+        if (opts.runtime === 'vscode.dev' && !CONFIG.product.qualities[qualityFromString(opts.quality)].webUrl) {
+            throw new Error(`Product ${chalk.green(CONFIG.product.id)} has no web URL to test ${chalk.green('vscode.dev')} with.`);
+        }
+
+        // Update service and mirrors
+        const { updateUrl, mirrors } = resolveEndpoints({ updateUrl: opts.updateUrl, mirrors: opts.mirror }, process.env, configFile, CONFIG.product);
+        if (updateUrl) {
+            CONFIG.updateUrl = updateUrl;
+            if (updateUrl !== DEFAULT_UPDATE_URL) {
+                LOGGER.log(`${chalk.gray('[build]')} using update service ${chalk.green(updateUrl)}`);
+            }
+        } else if (!opts.builds && !opts.offline) {
+            throw new Error(`Product ${chalk.green(CONFIG.product.id)} has no update service, please provide one via ${chalk.green('--update-url')} or local builds via ${chalk.green('--builds')}.`);
+        }
+        CONFIG.mirrors = mirrors;
+        if (mirrors.length > 0) {
+            LOGGER.log(`${chalk.gray('[build]')} using mirror${mirrors.length === 1 ? '' : 's'} ${mirrors.map(mirror => chalk.green(mirror)).join(', ')}`);
+        }
+
+        // Contains command: find the first builds containing a commit
+        if (containsCommand) {
+            return await findFirstBuildsContaining(containsCommand.commit, containsCommand.opts);
+        }
+
+        // Aliases of --bad and --good to find a fix
+        if (opts.fixed || opts.broken) {
+            if (opts.good || opts.bad || opts.terms) {
+                throw new Error(`${chalk.green('--fixed')} and ${chalk.green('--broken')} cannot be combined with ${chalk.green('--good')}, ${chalk.green('--bad')} or ${chalk.green('--terms')}.`);
+            }
+
+            opts.findFix = true;
+            opts.bad = opts.fixed;
+            opts.good = opts.broken;
+        }
+
         if (opts.sanity) {
             if (opts.perf || opts.good || opts.bad || !opts.commit || opts.commit === 'latest') {
                 throw new Error(`Sanity testing requires a specific commit to be set via ${chalk.green('--commit')}.`);
             }
         }
 
+        if (opts.run) {
+            if (opts.commit || opts.version || opts.sanity || opts.perf) {
+                throw new Error(`Running a script via ${chalk.green('--run')} is only supported when bisecting.`);
+            }
+
+            CONFIG.run = opts.run;
+        }
+
+        if (opts.terms && opts.findFix) {
+            throw new Error(`Only provide either ${chalk.green('--terms')} or ${chalk.green('--find-fix')}.`);
+        }
+
+        if (opts.terms) {
+            CONFIG.terms = termsFromString(opts.terms);
+        } else if (opts.findFix) {
+            CONFIG.terms = FIND_FIX_TERMS;
+        }
+
+        if (opts.flaky) {
+            const reproductionRate = typeof opts.flaky === 'string' ? parsePercentage(opts.flaky) : DEFAULT_FLAKY_OPTIONS.reproductionRate;
+            const confidence = opts.confidence ? parsePercentage(opts.confidence) : DEFAULT_FLAKY_OPTIONS.confidence;
+            if (reproductionRate <= 0 || reproductionRate > 1) {
+                throw new Error(`Invalid reproduction rate ${chalk.green(opts.flaky)}. Please provide a percentage between 1% and 100%.`);
+            }
+
+            if (confidence < 0.5 || confidence >= 1) {
+                throw new Error(`Invalid confidence ${chalk.green(opts.confidence)}. Please provide a percentage between 50% and 99.9%.`);
+            }
+
+            CONFIG.flaky = { reproductionRate, confidence };
+        } else if (opts.confidence) {
+            throw new Error(`${chalk.green('--confidence')} requires ${chalk.green('--flaky')}.`);
+        }
+
+        if (opts.log) {
+            CONFIG.log = resolve(opts.log);
+        }
+
+        if (opts.report) {
+            if (opts.commit || opts.version || opts.sanity) {
+                throw new Error(`Writing a report via ${chalk.green('--report')} is only supported when bisecting.`);
+            }
+
+            CONFIG.report = resolve(opts.report);
+        }
+
+        if (opts.verifyHistory) {
+            if (opts.commit || opts.version || opts.sanity) {
+                throw new Error(`Verifying the history via ${chalk.green('--verify-history')} is only supported when bisecting.`);
+            }
+
+            CONFIG.verifyHistory = true;
+        }
+
+        if (opts.listCommits || opts.path || opts.author) {
+            if (opts.commit || opts.version || opts.sanity) {
+                throw new Error(`Listing commits via ${chalk.green('--list-commits')} is only supported when bisecting.`);
+            }
+
+            CONFIG.commits = { paths: opts.path ?? [], authors: opts.author ?? [] };
+        }
+
+        if (opts.replay) {
+            if (opts.commit || opts.version || opts.sanity || opts.good || opts.bad) {
+                throw new Error(`Replaying a bisect log via ${chalk.green('--replay')} cannot be combined with ${chalk.green('--commit')}, ${chalk.green('--version')}, ${chalk.green('--good')} or ${chalk.green('--bad')}.`);
+            }
+
+            // Continue to append to the replayed log unless
+            // another log is provided
+            CONFIG.log ??= resolve(opts.replay);
+        }
+
+        if (opts.stableFirst) {
+            if (opts.commit || opts.version || opts.sanity || opts.replay) {
+                throw new Error(`Bisecting stable builds first via ${chalk.green('--stable-first')} cannot be combined with ${chalk.green('--commit')}, ${chalk.green('--version')}, ${chalk.green('--sanity')} or ${chalk.green('--replay')}.`);
+            }
+
+            if (opts.quality === 'stable') {
+                throw new Error(`${chalk.green('--stable-first')} narrows down to insider builds and cannot be combined with ${chalk.green('--quality stable')}.`);
+            }
+        }
+
+        if (opts.builds) {
+            const flavor = flavorFromString(opts.flavor);
+            if (opts.runtime === 'vscode.dev' || (flavor !== Flavor.Default && flavor !== Flavor.Cli && flavor !== Flavor.DarwinUniversal)) {
+                throw new Error(`Local builds via ${chalk.green('--builds')} only support archives of desktop, local web or CLI builds.`);
+            }
+
+            if (opts.sanity || opts.stableFirst) {
+                throw new Error(`Local builds via ${chalk.green('--builds')} cannot be combined with ${chalk.green('--sanity')} or ${chalk.green('--stable-first')}.`);
+            }
+
+            await localBuilds.load(resolve(opts.builds));
+        }
+
         if (opts.version && opts.commit) {
             throw new Error(`Only provide either ${chalk.green('--version')} or ${chalk.green('--commit')}.`);
         }
@@ -107,49 +372,34 @@ ${chalk.bold('Storage:')} ${chalk.green(BUILD_FOLDER)}
                 CONFIG.token = opts.token;
             }
 
+            if (opts.perfThreshold && opts.perfRegression) {
+                throw new Error(`Only provide either ${chalk.green('--perf-threshold')} or ${chalk.green('--perf-regression')}.`);
+            }
+
+            if (opts.perfThreshold) {
+                CONFIG.perfThreshold = parseDuration(opts.perfThreshold);
+            } else if (opts.perfRegression) {
+                CONFIG.perfRegression = parsePercentage(opts.perfRegression);
+            }
+
             if (opts.runtime !== 'vscode.dev') {
                 await git.whenReady;
             }
+        } else if (opts.perfThreshold || opts.perfRegression) {
+            throw new Error(`${chalk.green('--perf-threshold')} and ${chalk.green('--perf-regression')} require ${chalk.green('--perf')}.`);
+        }
+
+        // Download the builds to try next in the background, unless
+        // measuring performance which the downloads would distort
+        if (opts.prefetch !== false && !opts.perf) {
+            CONFIG.prefetch = {
+                concurrency: opts.prefetchConcurrency ? parseCount(opts.prefetchConcurrency) : DEFAULT_PREFETCH_CONCURRENCY,
+                maxBytesPerSecond: opts.prefetchLimit ? parseBandwidth(opts.prefetchLimit) : undefined
+            };
         }
 
-        let badCommitOrVersion = opts.bad;
-        let goodCommitOrVersion = opts.good;
         if (!opts.commit && !opts.version) {
             bisecter.logWelcome();
-
-            if (!badCommitOrVersion) {
-                const response = await prompts([
-                    {
-                        type: 'text',
-                        name: 'bad',
-                        initial: '',
-                        message: 'Commit or version of released build that reproduces the issue (leave empty to pick the latest build)',
-                    }
-                ]);
-
-                if (typeof response.bad === 'undefined') {
-                    process.exit();
-                } else if (response.bad) {
-                    badCommitOrVersion = response.bad;
-                }
-            }
-
-            if (!goodCommitOrVersion) {
-                const response = await prompts([
-                    {
-                        type: 'text',
-                        name: 'good',
-                        initial: '',
-                        message: 'Commit or version of released build that does not reproduce the issue (leave empty to pick the oldest build)',
-                    }
-                ]);
-
-                if (typeof response.good === 'undefined') {
-                    process.exit();
-                } else if (response.good) {
-                    goodCommitOrVersion = response.good;
-                }
-            }
         }
 
         const runtime = runtimeFromString(opts.runtime);
@@ -159,6 +409,10 @@ ${chalk.bold('Storage:')} ${chalk.green(BUILD_FOLDER)}
             throw new Error(`Flavor ${chalk.green(flavor)} is only supported for desktop builds.`);
         }
 
+        if (opts.run && flavor !== Flavor.Default && flavor !== Flavor.DarwinUniversal && flavor !== Flavor.Cli) {
+            throw new Error(`Flavor ${chalk.green(flavor)} is not supported when running a script via ${chalk.green('--run')}.`);
+        }
+
         const buildKind: IBuildKind = { runtime, quality, flavor };
 
         let commit: string | undefined;
@@ -188,13 +442,94 @@ ${chalk.bold('Storage:')} ${chalk.green(BUILD_FOLDER)}
             await bisecter.tryBuild({ commit, runtime, quality, flavor }, { isBisecting: false, forceReDownload: false });
         }
 
+        // Bisect log provided: replay and continue bisecting
+        else if (opts.replay) {
+            await bisecter.replay(resolve(opts.replay));
+        }
+
         // No commit provided: bisect commit ranges
         else {
-            await bisecter.start(buildKind, goodCommitOrVersion, badCommitOrVersion, opts.releasedOnly, opts.exclude);
+            await bisecter.start(buildKind, opts.good, opts.bad, opts.releasedOnly, opts.exclude, opts.stableFirst);
         }
     } catch (error) {
         LOGGER.log(`${chalk.red('\n[error]')} ${error}`);
         logTroubleshoot();
         process.exit(1);
     }
+}
+
+async function findFirstBuildsContaining(commit: string, opts: { runtime?: string, flavor?: string, launch?: string }): Promise<void> {
+    const runtime = runtimeFromString(opts.runtime);
+    const flavor = flavorFromString(opts.flavor);
+    if (flavor !== Flavor.Default && runtime !== Runtime.DesktopLocal) {
+        throw new Error(`Flavor ${chalk.green(flavor)} is only supported for desktop builds.`);
+    }
+
+    const result = await contains.findFirstBuilds(commit, { runtime, flavor });
+    contains.logFirstBuilds(result);
+
+    if (opts.launch) {
+        const build = qualityFromString(opts.launch) === Quality.Stable ? result.stable : result.insider;
+        if (!build) {
+            throw new Error(`No ${chalk.green(opts.launch)} build contains commit ${chalk.green(result.commit)} yet.`);
+        }
+
+        await bisecter.tryBuild({ commit: build.commit, runtime: build.runtime, quality: build.quality, flavor: build.flavor }, { isBisecting: false, forceReDownload: false });
+    }
+}
+
+function parseDuration(value: string): number {
+    const matches = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/i.exec(value.trim());
+    if (!matches) {
+        throw new Error(`Invalid duration ${chalk.green(value)}. Please provide a duration in milliseconds, seconds, minutes or hours, for example ${chalk.green('1200ms')}, ${chalk.green('1.2s')} or ${chalk.green('10m')}.`);
+    }
+
+    const duration = parseFloat(matches[1]);
+
+    switch (matches[2]?.toLowerCase()) {
+        case 's':
+            return duration * 1000;
+        case 'm':
+            return duration * 60 * 1000;
+        case 'h':
+            return duration * 60 * 60 * 1000;
+        default:
+            return duration;
+    }
+}
+
+function parseCount(value: string): number {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`Invalid count ${chalk.green(value)}. Please provide a positive number, for example ${chalk.green('1')}.`);
+    }
+
+    return count;
+}
+
+function parseBandwidth(value: string): number {
+    const matches = /^(\d+(?:\.\d+)?)\s*(k|m)?b(?:\/s)?$/i.exec(value.trim());
+    if (!matches || parseFloat(matches[1]) <= 0) {
+        throw new Error(`Invalid bandwidth ${chalk.green(value)}. Please provide bytes per second, for example ${chalk.green('500KB/s')} or ${chalk.green('5MB/s')}.`);
+    }
+
+    const bandwidth = parseFloat(matches[1]);
+
+    switch (matches[2]?.toLowerCase()) {
+        case 'k':
+            return bandwidth * 1024;
+        case 'm':
+            return bandwidth * 1024 * 1024;
+        default:
+            return bandwidth;
+    }
+}
+
+function parsePercentage(value: string): number {
+    const matches = /^(\d+(?:\.\d+)?)\s*%?$/.exec(value.trim());
+    if (!matches) {
+        throw new Error(`Invalid percentage ${chalk.green(value)}. Please provide a percentage, for example ${chalk.green('15%')}.`);
+    }
+
+    return parseFloat(matches[1]) / 100;
 }
\ No newline at end of file
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See LICENSE in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { mkdirSync, rmSync } from 'node:fs';
+import { mkdirSync, readFileSync, rmSync } from 'node:fs';
 import clipboard from 'clipboardy';
 import { ChildProcessWithoutNullStreams, spawn } from 'node:child_process';
 import { homedir } from 'node:os';
@@ -18,13 +18,15 @@ import * as perf from '@vscode/vscode-perf';
 import { builds, IBuild } from './builds.js';
 import { CONFIG, DATA_FOLDER, EXTENSIONS_FOLDER, GIT_VSCODE_FOLDER, LOGGER, DEFAULT_PERFORMANCE_FILE, Platform, platform, Runtime, USER_DATA_FOLDER, VSCODE_DEV_URL, Flavor, Quality, isDockerCliFlavor } from './constants.js';
 import { exists } from './files.js';
+import { IDownloadProgress } from './fetch.js';
+import { getProductQuality } from './product.js';
 
 export interface IInstance {
 
     /**
-     * Optional ellapsed time in milliseconds.
-     * Only available for desktop builds and when
-     * running with `--perf` command line flag.
+     * Optional ellapsed time in milliseconds (median
+     * of all runs). Only available when running with
+     * `--perf` command line flag.
      */
     readonly ellapsed?: number;
 
@@ -48,16 +50,10 @@ class Launcher {
 
     private static readonly WEB_AVAILABLE_REGEX = new RegExp('Web UI available at (http://localhost:8000/?\\?tkn=.+)');
 
-    static {
+    private didPrepareDataFolder = false;
 
-        // Recreate user data & extension folder
-        try {
-            rmSync(DATA_FOLDER, { recursive: true });
-        } catch (error) { }
-        mkdirSync(DATA_FOLDER, { recursive: true });
-    }
-
-    async launch(build: IBuild, options?: { forceReDownload: boolean }): Promise<IInstance | undefined> {
+    async launch(build: IBuild, options?: { forceReDownload: boolean, onDownloadProgress?: (progress: IDownloadProgress) => void }): Promise<IInstance | undefined> {
+        this.prepareDataFolder();
 
         // Install (unless web remote)
         let path: string | undefined;
@@ -115,23 +111,80 @@ class Launcher {
         }
     }
 
+    async runScript(build: IBuild, script: string, options?: { forceReDownload: boolean }): Promise<number> {
+        this.prepareDataFolder();
+
+        const env: NodeJS.ProcessEnv = {
+            ...process.env,
+            VSCODE_BISECT_COMMIT: build.commit,
+            VSCODE_BISECT_QUALITY: build.quality,
+            VSCODE_BISECT_RUNTIME: build.runtime,
+            VSCODE_BISECT_FLAVOR: build.flavor,
+            VSCODE_BISECT_USER_DATA_DIR: USER_DATA_FOLDER,
+            VSCODE_BISECT_EXTENSIONS_DIR: EXTENSIONS_FOLDER
+        };
+
+        // Install and resolve executable (unless web remote)
+        if (build.runtime === Runtime.WebRemote) {
+            env.VSCODE_BISECT_URL = VSCODE_DEV_URL(build.commit, build.quality);
+        } else {
+            await builds.downloadAndExtractBuild(build, options);
+            env.VSCODE_BISECT_EXECUTABLE = await this.getExecutablePath(build);
+        }
+
+        LOGGER.log(`${chalk.gray('[run]')} running ${chalk.green(script)} for build ${chalk.green(build.commit)}...`);
+
+        const cp = spawn(script, { shell: true, stdio: 'inherit', env });
+
+        return new Promise<number>((resolve, reject) => {
+            cp.on('close', (code, signal) => {
+                if (signal) {
+                    LOGGER.log(`${chalk.gray('[run]')} ${chalk.red(`script was terminated by signal ${signal}`)}`);
+                }
+
+                resolve(code ?? 128);
+            });
+
+            cp.on('error', error => reject(error));
+        });
+    }
+
+    /**
+     * Recreates the user data & extension folder once
+     * before the first build is launched.
+     */
+    private prepareDataFolder(): void {
+        if (this.didPrepareDataFolder) {
+            return;
+        }
+
+        this.didPrepareDataFolder = true;
+
+        try {
+            rmSync(DATA_FOLDER, { recursive: true });
+        } catch (error) { }
+        mkdirSync(DATA_FOLDER, { recursive: true });
+    }
+
     private async runLinuxDesktopInstaller(quality: Quality, flavor: Flavor.LinuxDeb | Flavor.LinuxRPM | Flavor.LinuxSnap, path: string): Promise<IInstance | undefined> {
+        const { applicationName } = getProductQuality(CONFIG.product, quality);
+
         let installCommand: string;
         let executeCommand: string;
         let executeArgs: string[] | undefined = undefined;
         switch (flavor) {
             case Flavor.LinuxDeb:
-                installCommand = `sudo dpkg -r ${quality === 'stable' ? 'code' : 'code-insiders'} && sudo dpkg -i ${path}`;
-                executeCommand = quality === 'stable' ? 'code' : 'code-insiders';
+                installCommand = `sudo dpkg -r ${applicationName} && sudo dpkg -i ${path}`;
+                executeCommand = applicationName;
                 break;
             case Flavor.LinuxRPM:
-                installCommand = `sudo rpm -e ${quality === 'stable' ? 'code' : 'code-insiders'} && sudo rpm -i ${path}`;
-                executeCommand = quality === 'stable' ? 'code' : 'code-insiders';
+                installCommand = `sudo rpm -e ${applicationName} && sudo rpm -i ${path}`;
+                executeCommand = applicationName;
                 break;
             case Flavor.LinuxSnap:
-                installCommand = `sudo snap remove ${quality === 'stable' ? 'code' : 'code-insiders'} && sudo snap install ${path} --classic --dangerous`;
+                installCommand = `sudo snap remove ${applicationName} && sudo snap install ${path} --classic --dangerous`;
                 executeCommand = 'snap';
-                executeArgs = ['run', quality === 'stable' ? 'code' : 'code-insiders'];
+                executeArgs = ['run', applicationName];
                 break;
         }
 
@@ -181,7 +234,7 @@ class Launcher {
         const windowsExecutablePath = `"${this.getWindowsVSCodeExecutablePath(flavor, quality)}"`;
         this.safeWriteClipboardSync(windowsExecutablePath);
 
-        console.log(`${chalk.gray('[build]')} Setup is running and will launch the build. If that is not the case, please open a new terminal, and run ${chalk.green(windowsExecutablePath)} (added to clipboard) to start.`);
+        LOGGER.log(`${chalk.gray('[build]')} Setup is running and will launch the build. If that is not the case, please open a new terminal, and run ${chalk.green(windowsExecutablePath)} (added to clipboard) to start.`);
 
         return {
             async stop() {
@@ -192,7 +245,6 @@ class Launcher {
 
     private getWindowsVSCodeExecutablePath(flavor: Flavor.WindowsUserInstaller | Flavor.WindowsSystemInstaller, quality: Quality): string {
         const isUserInstaller = flavor === Flavor.WindowsUserInstaller;
-        const isInsiders = quality === Quality.Insider;
 
         // Determine base directory
         let baseDir: string;
@@ -206,30 +258,23 @@ class Launcher {
             baseDir = programFiles;
         }
 
-        let appFolder: string;
-        let executableName: string;
-        if (isInsiders) {
-            appFolder = 'Microsoft VS Code Insiders';
-            executableName = 'code-insiders.cmd';
-        } else {
-            appFolder = 'Microsoft VS Code';
-            executableName = 'code.cmd';
-        }
+        const { win32DirName, applicationName } = getProductQuality(CONFIG.product, quality);
 
-        return join(baseDir, appFolder, 'bin', executableName);
+        return join(baseDir, win32DirName, 'bin', `${applicationName}.cmd`);
     }
 
     private async runDesktopPerformance(build: IBuild): Promise<IInstance> {
         const executable = await this.getExecutablePath(build);
+        const file = typeof CONFIG.performance === 'string' ? CONFIG.performance : DEFAULT_PERFORMANCE_FILE;
 
-        await perf.run({
+        const ellapsed = await this.measurePerformance(file, () => perf.run({
             build: executable,
             folder: GIT_VSCODE_FOLDER,
             file: join(GIT_VSCODE_FOLDER, 'package.json'),
-            profAppendTimers: typeof CONFIG.performance === 'string' ? CONFIG.performance : DEFAULT_PERFORMANCE_FILE
-        });
+            profAppendTimers: file
+        }));
 
-        return NOOP_INSTANCE;
+        return { ...NOOP_INSTANCE, ellapsed };
     }
 
     private async runWebPerformance(build: IBuild): Promise<IInstance> {
@@ -247,20 +292,68 @@ class Launcher {
             url = VSCODE_DEV_URL(build.commit, build.quality);
         }
 
+        // Only write duration markers when asked for a file or
+        // when classifying builds needs to read them
+        const needsMarkers = typeof CONFIG.perfThreshold === 'number' || typeof CONFIG.perfRegression === 'number';
+        const file = typeof CONFIG.performance === 'string' ? CONFIG.performance : needsMarkers ? DEFAULT_PERFORMANCE_FILE : undefined;
+
+        let ellapsed: number | undefined;
         try {
-            await perf.run({
+            const run = () => perf.run({
                 build: url,
                 runtime: 'web',
                 token: CONFIG.token,
                 folder: build.runtime === Runtime.WebLocal ? URI.file(GIT_VSCODE_FOLDER).path /* supports Windows & POSIX */ : undefined,
                 file: build.runtime === Runtime.WebLocal ? URI.file(join(GIT_VSCODE_FOLDER, 'package.json')).with({ scheme: 'vscode-remote', authority: 'localhost:9888' }).toString(true) : undefined,
-                durationMarkersFile: typeof CONFIG.performance === 'string' ? CONFIG.performance : undefined,
+                durationMarkersFile: file,
             });
+
+            if (file) {
+                ellapsed = await this.measurePerformance(file, run);
+            } else {
+                await run();
+            }
         } finally {
             server?.stop();
         }
 
-        return NOOP_INSTANCE;
+        return { ...NOOP_INSTANCE, ellapsed };
+    }
+
+    /**
+     * Runs the performance test and returns the median of the
+     * durations that were appended to the file (first column of
+     * each line) or `undefined` if no durations were found.
+     */
+    private async measurePerformance(file: string, run: () => Promise<void>): Promise<number | undefined> {
+        const linesBefore = this.readPerformanceLines(file).length;
+
+        await run();
+
+        const durations = this.readPerformanceLines(file)
+            .slice(linesBefore)
+            .map(line => parseInt(line.split('\t')[0], 10))
+            .filter(duration => !isNaN(duration))
+            .sort((a, b) => a - b);
+
+        if (durations.length === 0) {
+            LOGGER.log(`${chalk.gray('[perf]')} ${chalk.red('no performance results found in')} ${chalk.green(file)}`);
+            return undefined;
+        }
+
+        const middle = Math.floor(durations.length / 2);
+        const median = durations.length % 2 === 0 ? Math.round((durations[middle - 1] + durations[middle]) / 2) : durations[middle];
+        LOGGER.log(`${chalk.gray('[perf]')} median of ${chalk.green(durations.length)} runs is ${chalk.green(`${median}ms`)}`);
+
+        return median;
+    }
+
+    private readPerformanceLines(file: string): string[] {
+        try {
+            return readFileSync(file).toString().split(/\r?\n/).filter(line => !!line.trim());
+        } catch (error) {
+            return []; // does not exist yet
+        }
     }
 
     private async launchLocalWeb(build: IBuild): Promise<IInstance> {
@@ -392,7 +485,7 @@ class Launcher {
 
     private async launchDockerCLI(build: IBuild, flavor: Flavor.CliLinuxAmd64 | Flavor.CliLinuxArm64 | Flavor.CliLinuxArmv7 | Flavor.CliAlpineAmd64 | Flavor.CliAlpineArm64): Promise<IInstance> {
         const commit = build.commit;
-        const quality = build.quality === Quality.Insider ? 'insider' : 'stable';
+        const quality = getProductQuality(CONFIG.product, build.quality).updateName;
 
         await this.setupDockerBinfmt();
 
@@ -403,19 +496,19 @@ class Launcher {
 
         switch (flavor) {
             case Flavor.CliLinuxAmd64:
-                dockerCommand = `docker run --name ${containerName} -e COMMIT -i --rm --pull always --platform linux/amd64 mcr.microsoft.com/devcontainers/base:latest /bin/sh -c 'apt update && DEBIAN_FRONTEND=noninteractive apt install -y wget libatomic1 ca-certificates python3-minimal && wget "https://update.code.visualstudio.com/commit:${commit}/cli-linux-x64/${quality}" -O- | tar -xz && ./code tunnel'`;
+                dockerCommand = `docker run --name ${containerName} -e COMMIT -i --rm --pull always --platform linux/amd64 mcr.microsoft.com/devcontainers/base:latest /bin/sh -c 'apt update && DEBIAN_FRONTEND=noninteractive apt install -y wget libatomic1 ca-certificates python3-minimal && wget "${CONFIG.updateUrl}/commit:${commit}/cli-linux-x64/${quality}" -O- | tar -xz && ./code tunnel'`;
                 break;
             case Flavor.CliLinuxArm64:
-                dockerCommand = `docker run --name ${containerName} -e COMMIT -i --rm --pull always --platform linux/arm64 mcr.microsoft.com/devcontainers/base:latest /bin/sh -c 'apt update && DEBIAN_FRONTEND=noninteractive apt install -y wget libatomic1 ca-certificates python3-minimal && wget "https://update.code.visualstudio.com/commit:${commit}/cli-linux-arm64/${quality}" -O- | tar -xz && ./code tunnel'`;
+                dockerCommand = `docker run --name ${containerName} -e COMMIT -i --rm --pull always --platform linux/arm64 mcr.microsoft.com/devcontainers/base:latest /bin/sh -c 'apt update && DEBIAN_FRONTEND=noninteractive apt install -y wget libatomic1 ca-certificates python3-minimal && wget "${CONFIG.updateUrl}/commit:${commit}/cli-linux-arm64/${quality}" -O- | tar -xz && ./code tunnel'`;
                 break;
             case Flavor.CliLinuxArmv7:
-                dockerCommand = `docker run --name ${containerName} -e COMMIT -i --rm --pull always --platform linux/arm/v7 arm32v7/ubuntu /bin/sh -c 'apt update && DEBIAN_FRONTEND=noninteractive apt install -y wget libatomic1 ca-certificates python3-minimal && wget "https://update.code.visualstudio.com/commit:${commit}/cli-linux-armhf/${quality}" -O- | tar -xz && ./code tunnel'`;
+                dockerCommand = `docker run --name ${containerName} -e COMMIT -i --rm --pull always --platform linux/arm/v7 arm32v7/ubuntu /bin/sh -c 'apt update && DEBIAN_FRONTEND=noninteractive apt install -y wget libatomic1 ca-certificates python3-minimal && wget "${CONFIG.updateUrl}/commit:${commit}/cli-linux-armhf/${quality}" -O- | tar -xz && ./code tunnel'`;
                 break;
             case Flavor.CliAlpineAmd64:
-                dockerCommand = `docker run --name ${containerName} -e COMMIT -i --rm --pull always --platform linux/amd64 amd64/alpine /bin/sh -c 'apk update && apk add musl libgcc libstdc++ && wget "https://update.code.visualstudio.com/commit:${commit}/cli-alpine-x64/${quality}" -O- | tar -xz && ./code tunnel'`;
+                dockerCommand = `docker run --name ${containerName} -e COMMIT -i --rm --pull always --platform linux/amd64 amd64/alpine /bin/sh -c 'apk update && apk add musl libgcc libstdc++ && wget "${CONFIG.updateUrl}/commit:${commit}/cli-alpine-x64/${quality}" -O- | tar -xz && ./code tunnel'`;
                 break;
             case Flavor.CliAlpineArm64:
-                dockerCommand = `docker run --name ${containerName} -e COMMIT -i --rm --pull always --platform linux/arm64 arm64v8/alpine /bin/sh -c 'apk update && apk add musl libgcc libstdc++ && wget "https://update.code.visualstudio.com/commit:${commit}/cli-alpine-arm64/${quality}" -O- | tar -xz && ./code tunnel'`;
+                dockerCommand = `docker run --name ${containerName} -e COMMIT -i --rm --pull always --platform linux/arm64 arm64v8/alpine /bin/sh -c 'apk update && apk add musl libgcc libstdc++ && wget "${CONFIG.updateUrl}/commit:${commit}/cli-alpine-arm64/${quality}" -O- | tar -xz && ./code tunnel'`;
                 break;
         }
 
@@ -489,7 +582,7 @@ class Launcher {
 
         const args = build.flavor === Flavor.Cli ? ['tunnel'] : [
             '--accept-server-license-terms',
-            '--extensions-dir',
+            CONFIG.product.extensionsDirFlag,
             EXTENSIONS_FOLDER,
             '--skip-release-notes'
         ];
@@ -497,7 +590,7 @@ class Launcher {
         if (build.runtime === Runtime.DesktopLocal && build.flavor !== Flavor.Cli) {
             args.push(
                 '--disable-updates',
-                '--user-data-dir',
+                CONFIG.product.userDataDirFlag,
                 USER_DATA_FOLDER,
                 '--disable-telemetry',
                 '--disable-experiments'
@@ -0,0 +1,193 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import chalk from 'chalk';
+import { promises } from 'node:fs';
+import { basename, dirname, isAbsolute, join, resolve } from 'node:path';
+import { LOGGER } from './constants.js';
+
+/**
+ * A build that is not published to the update service,
+ * e.g. a build of a fork or of a pull request from CI.
+ */
+export interface ILocalBuild {
+    readonly commit: string;
+
+    /**
+     * Time of the build in milliseconds since epoch,
+     * used to order the builds.
+     */
+    readonly timestamp: number;
+
+    /**
+     * Absolute path or URL of the archive (`.zip`, `.tar.gz`).
+     */
+    readonly archive: string;
+
+    readonly sha256?: string;
+    readonly productVersion?: string;
+
+    /**
+     * Path of the executable relative to the folder the
+     * archive is extracted to, if it differs from the
+     * location of published builds (e.g. `code-oss`).
+     */
+    readonly executable?: string;
+}
+
+const ARCHIVE_EXTENSIONS = ['.zip', '.tar.gz', '.tgz'];
+
+class LocalBuilds {
+
+    private builds: ILocalBuild[] | undefined = undefined;
+
+    get isEnabled(): boolean {
+        return !!this.builds;
+    }
+
+    /**
+     * Loads the builds from a manifest file or from the
+     * archives of a directory.
+     */
+    async load(path: string): Promise<void> {
+        const stat = await promises.stat(path).catch(() => undefined);
+        if (!stat) {
+            throw new Error(`Local builds ${chalk.green(path)} do not exist.`);
+        }
+
+        let builds: ILocalBuild[];
+        if (stat.isDirectory()) {
+            builds = await scanDirectory(path);
+        } else {
+            let manifest: unknown;
+            try {
+                manifest = JSON.parse((await promises.readFile(path)).toString());
+            } catch (error) {
+                throw new Error(`Invalid manifest ${chalk.green(path)}: ${error}`);
+            }
+
+            builds = parseManifest(manifest, dirname(resolve(path)));
+        }
+
+        if (builds.length < 2) {
+            throw new Error(`At least 2 local builds are required to bisect, found ${chalk.green(builds.length)} in ${chalk.green(path)}.`);
+        }
+
+        LOGGER.log(`${chalk.gray('[build]')} using ${chalk.green(builds.length)} local builds from ${chalk.green(path)}`);
+
+        this.builds = builds;
+    }
+
+    /**
+     * All local builds, newest first.
+     */
+    list(): ILocalBuild[] {
+        return this.builds ?? [];
+    }
+
+    get(commit: string): ILocalBuild {
+        const build = this.builds?.find(build => build.commit === commit);
+        if (!build) {
+            throw new Error(`Commit ${chalk.green(commit)} is not one of the local builds.`);
+        }
+
+        return build;
+    }
+}
+
+export const localBuilds = new LocalBuilds();
+
+/**
+ * Parses a manifest of the form `{ "builds": [{ "commit", "date",
+ * "archive", "sha256"?, "version"?, "executable"? }] }` where
+ * archive paths are relative to the manifest. Returns the builds
+ * newest first.
+ */
+export function parseManifest(manifest: unknown, baseDir: string): ILocalBuild[] {
+    const entries = (manifest as { builds?: unknown })?.builds;
+    if (!Array.isArray(entries)) {
+        throw new Error(`Invalid manifest, expected a ${chalk.green('builds')} array.`);
+    }
+
+    const builds = entries.map((entry, index): ILocalBuild => {
+        const { commit, date, archive, sha256, version, executable } = entry ?? {};
+        const invalid = (reason: string) => new Error(`Invalid manifest, build ${chalk.green(index + 1)} ${reason}.`);
+
+        if (typeof commit !== 'string' || !/^[0-9a-f]{40}$/i.test(commit)) {
+            throw invalid(`requires a ${chalk.green('commit')} hash`);
+        }
+
+        const timestamp = typeof date === 'string' ? Date.parse(date) : NaN;
+        if (isNaN(timestamp)) {
+            throw invalid(`requires an ISO ${chalk.green('date')}`);
+        }
+
+        if (typeof archive !== 'string' || !isArchive(archive)) {
+            throw invalid(`requires an ${chalk.green('archive')} path or URL ending with ${ARCHIVE_EXTENSIONS.join(', ')}`);
+        }
+
+        if (sha256 !== undefined && (typeof sha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(sha256))) {
+            throw invalid(`has an invalid ${chalk.green('sha256')} checksum`);
+        }
+
+        return {
+            commit: commit.toLowerCase(),
+            timestamp,
+            archive: isUrl(archive) || isAbsolute(archive) ? archive : join(baseDir, archive),
+            sha256: sha256?.toLowerCase(),
+            productVersion: typeof version === 'string' ? version : undefined,
+            executable: typeof executable === 'string' ? executable : undefined
+        };
+    });
+
+    return sortNewestFirst(builds);
+}
+
+/**
+ * Finds the archives of a directory that have a commit hash in
+ * their name (e.g. `VSCode-linux-x64-<commit>.tar.gz`), using
+ * the modification time of the archive as date of the build.
+ */
+export async function scanDirectory(path: string): Promise<ILocalBuild[]> {
+    const builds: ILocalBuild[] = [];
+    for (const file of await promises.readdir(path)) {
+        const commit = /(?:^|[^0-9a-f])([0-9a-f]{40})(?:[^0-9a-f]|$)/i.exec(file)?.[1];
+        if (!commit || !isArchive(file)) {
+            continue;
+        }
+
+        const archive = resolve(path, file);
+        builds.push({ commit: commit.toLowerCase(), timestamp: (await promises.stat(archive)).mtimeMs, archive });
+    }
+
+    return sortNewestFirst(builds);
+}
+
+export function isUrl(archive: string): boolean {
+    return /^https?:\/\//i.test(archive);
+}
+
+export function getArchiveName(archive: string): string {
+    return basename(isUrl(archive) ? new URL(archive).pathname : archive);
+}
+
+function isArchive(archive: string): boolean {
+    const name = getArchiveName(archive).toLowerCase();
+
+    return ARCHIVE_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+function sortNewestFirst(builds: ILocalBuild[]): ILocalBuild[] {
+    const commits = new Set<string>();
+    for (const { commit } of builds) {
+        if (commits.has(commit)) {
+            throw new Error(`Local builds contain commit ${chalk.green(commit)} more than once.`);
+        }
+
+        commits.add(commit);
+    }
+
+    return [...builds].sort((a, b) => b.timestamp - a.timestamp);
+}
@@ -0,0 +1,228 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import chalk from 'chalk';
+import { promises } from 'node:fs';
+import { dirname } from 'node:path';
+import { IBuildKind } from './builds.js';
+import { IFlakyOptions } from './flaky.js';
+import { BisectVerdict } from './state.js';
+import { CONFIG, Flavor, isDefaultTerms, isQuality, ITerms, Quality, Runtime, termsFromString } from './constants.js';
+
+export type BisectLogVerdict = BisectVerdict | 'undo';
+
+export interface IBisectLogEntry {
+    readonly verdict: BisectLogVerdict;
+    readonly commit: string;
+}
+
+export interface IBisectLog {
+    readonly kind: IBuildKind;
+    readonly goodCommit: string;
+    readonly badCommit: string;
+    readonly releasedOnly: boolean;
+    readonly excludeCommits: string[];
+    readonly terms?: ITerms;
+    readonly flaky?: IFlakyOptions;
+    readonly nextQuality?: Quality;
+    readonly entries: IBisectLogEntry[];
+}
+
+class BisectLog {
+
+    private static readonly HEADER = '# vscode-bisect log, replay with `vscode-bisect --replay <file>`';
+
+    /**
+     * Appends the start of a session to the log configured via
+     * `--log`. When resuming or replaying into an existing log,
+     * only a comment is added to keep the log replayable.
+     */
+    async writeSession(session: Omit<IBisectLog, 'entries'>, entries: IBisectLogEntry[], reason: 'start' | 'resume' | 'replay'): Promise<void> {
+        if (!CONFIG.log) {
+            return;
+        }
+
+        let isEmpty = true;
+        try {
+            isEmpty = (await promises.stat(CONFIG.log)).size === 0;
+        } catch (error) {
+            // does not exist yet
+        }
+
+        if (reason !== 'start' && !isEmpty) {
+            return this.write(`# ${reason === 'resume' ? 'resumed' : 'replayed'} session # ${new Date().toISOString()}`);
+        }
+
+        const lines = [
+            BisectLog.HEADER,
+            `${this.formatStart(session)} # ${new Date().toISOString()}`,
+            ...entries.map(entry => this.formatEntry(entry))
+        ];
+
+        return this.write(...lines);
+    }
+
+    async writeEntry(entry: IBisectLogEntry): Promise<void> {
+        if (!CONFIG.log) {
+            return;
+        }
+
+        return this.write(`${this.formatEntry(entry)} # ${new Date().toISOString()}`);
+    }
+
+    async read(path: string): Promise<IBisectLog> {
+        let contents: string;
+        try {
+            contents = (await promises.readFile(path)).toString();
+        } catch (error) {
+            throw new Error(`Unable to read bisect log ${chalk.green(path)}: ${error}`);
+        }
+
+        return this.parse(contents);
+    }
+
+    parse(contents: string): IBisectLog {
+        let log: IBisectLog | undefined = undefined;
+
+        const lines = contents.split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i].replace(/#.*$/, '').trim(); // strip comments
+            if (!line) {
+                continue;
+            }
+
+            const [command, ...args] = line.split(/\s+/);
+
+            // A new session starts: forget about previous ones
+            if (command === 'start') {
+                log = this.parseStart(args, i + 1);
+                continue;
+            }
+
+            if (!log) {
+                throw new Error(`Invalid bisect log: expected ${chalk.green('start')} before line ${i + 1}.`);
+            }
+
+            if (command !== 'good' && command !== 'bad' && command !== 'skip' && command !== 'undo') {
+                throw new Error(`Invalid bisect log: unknown command ${chalk.green(command)} on line ${i + 1}.`);
+            }
+
+            const commit = args[0];
+            if (!commit || !/^[0-9a-f]{40}$/i.test(commit)) {
+                throw new Error(`Invalid bisect log: expected a commit hash on line ${i + 1}.`);
+            }
+
+            log.entries.push({ verdict: command, commit });
+        }
+
+        if (!log) {
+            throw new Error(`Invalid bisect log: no ${chalk.green('start')} line found.`);
+        }
+
+        return log;
+    }
+
+    private parseStart(args: string[], lineNumber: number): IBisectLog {
+        const values = new Map<string, string>();
+        for (const arg of args) {
+            const index = arg.indexOf('=');
+            if (index > 0) {
+                values.set(arg.substring(0, index), arg.substring(index + 1));
+            }
+        }
+
+        const runtime = values.get('runtime') as Runtime | undefined;
+        const quality = values.get('quality') as Quality | undefined;
+        const flavor = values.get('flavor') as Flavor | undefined;
+        const goodCommit = values.get('good');
+        const badCommit = values.get('bad');
+
+        if (!runtime || !Object.values(Runtime).includes(runtime)) {
+            throw new Error(`Invalid bisect log: unknown runtime on line ${lineNumber}.`);
+        }
+
+        if (!isQuality(quality)) {
+            throw new Error(`Invalid bisect log: unknown quality on line ${lineNumber}.`);
+        }
+
+        if (!flavor || !Object.values(Flavor).includes(flavor)) {
+            throw new Error(`Invalid bisect log: unknown flavor on line ${lineNumber}.`);
+        }
+
+        if (!goodCommit || !badCommit) {
+            throw new Error(`Invalid bisect log: expected good and bad commits on line ${lineNumber}.`);
+        }
+
+        let flaky: IFlakyOptions | undefined = undefined;
+        if (values.has('flaky')) {
+            const [reproductionRate, confidence] = values.get('flaky')!.split(',').map(value => parseFloat(value));
+            if (!(reproductionRate > 0 && reproductionRate <= 1) || !(confidence > 0 && confidence < 1)) {
+                throw new Error(`Invalid bisect log: invalid flaky options on line ${lineNumber}.`);
+            }
+
+            flaky = { reproductionRate, confidence };
+        }
+
+        const nextQuality = values.get('next-quality') as Quality | undefined;
+        if (nextQuality && !isQuality(nextQuality)) {
+            throw new Error(`Invalid bisect log: unknown next quality on line ${lineNumber}.`);
+        }
+
+        return {
+            kind: { runtime, quality, flavor },
+            goodCommit,
+            badCommit,
+            releasedOnly: values.get('released-only') === 'true',
+            excludeCommits: values.get('exclude')?.split(',').filter(commit => !!commit) ?? [],
+            terms: values.has('terms') ? termsFromString(values.get('terms')!) : undefined,
+            flaky,
+            nextQuality,
+            entries: []
+        };
+    }
+
+    private formatStart({ kind, goodCommit, badCommit, releasedOnly, excludeCommits, terms, flaky, nextQuality }: Omit<IBisectLog, 'entries'>): string {
+        const parts = [
+            'start',
+            `runtime=${kind.runtime}`,
+            `quality=${kind.quality}`,
+            `flavor=${kind.flavor}`,
+            `good=${goodCommit}`,
+            `bad=${badCommit}`,
+            `released-only=${releasedOnly}`
+        ];
+
+        if (excludeCommits.length > 0) {
+            parts.push(`exclude=${excludeCommits.join(',')}`);
+        }
+
+        if (terms && !isDefaultTerms(terms)) {
+            parts.push(`terms=${terms.new},${terms.old}`);
+        }
+
+        if (flaky) {
+            parts.push(`flaky=${flaky.reproductionRate},${flaky.confidence}`);
+        }
+
+        if (nextQuality) {
+            parts.push(`next-quality=${nextQuality}`);
+        }
+
+        return parts.join(' ');
+    }
+
+    private formatEntry({ verdict, commit }: IBisectLogEntry): string {
+        return `${verdict} ${commit}`;
+    }
+
+    private async write(...lines: string[]): Promise<void> {
+        const path = CONFIG.log!;
+
+        await promises.mkdir(dirname(path), { recursive: true });
+        await promises.appendFile(path, `${lines.join('\n')}\n`);
+    }
+}
+
+export const bisectLog = new BisectLog();
@@ -0,0 +1,160 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import chalk from 'chalk';
+import { builds, IBuild } from './builds.js';
+import { CONFIG, isDockerCliFlavor, LOGGER, Runtime } from './constants.js';
+
+interface IPrefetch {
+    readonly build: IBuild;
+    readonly controller: AbortController;
+    promise?: Promise<void>;
+
+    /**
+     * A cancelled prefetch of the same build that
+     * must be cleaned up before downloading again.
+     */
+    readonly cancelled?: IPrefetch;
+}
+
+class Prefetcher {
+
+    private prefetches: IPrefetch[] = [];
+
+    /**
+     * Downloads and extracts the builds in the background
+     * (`CONFIG.prefetch`) and cancels the prefetches of all
+     * other builds.
+     */
+    prefetch(buildsToPrefetch: IBuild[]): void {
+        if (!CONFIG.prefetch) {
+            return;
+        }
+
+        const keys = new Set(buildsToPrefetch.map(build => this.toKey(build)));
+        for (const prefetch of this.prefetches) {
+            if (!keys.has(this.toKey(prefetch.build))) {
+                this.cancelPrefetch(prefetch);
+            }
+        }
+
+        for (const build of buildsToPrefetch) {
+            if (this.canPrefetch(build) && !this.findPrefetch(build)) {
+                this.prefetches.push({ build, controller: new AbortController(), cancelled: this.findPrefetch(build, { started: true, cancelled: true }) });
+            }
+        }
+
+        this.startPrefetches();
+    }
+
+    /**
+     * Cancels the prefetches of all other builds without waiting
+     * for them and waits for the prefetch of the build to finish,
+     * so that the build is not used while it is still being
+     * downloaded or extracted.
+     */
+    async take(build: IBuild): Promise<void> {
+        const prefetch = this.findPrefetch(build, { started: true });
+        const cancelled = this.findPrefetch(build, { started: true, cancelled: true });
+
+        for (const other of this.prefetches) {
+            if (other !== prefetch) {
+                this.cancelPrefetch(other);
+            }
+        }
+
+        // Forget prefetches that did not start, those that did are
+        // forgotten once their partial download is removed
+        this.prefetches = this.prefetches.filter(other => other === prefetch || other.promise);
+
+        if (prefetch?.promise) {
+            LOGGER.trace(`${chalk.gray('[prefetch]')} waiting for build ${chalk.green(build.commit)}...`);
+            await prefetch.promise;
+        }
+
+        // A cancelled prefetch removes its partial download
+        // when done, which must not race with the download
+        else if (cancelled?.promise) {
+            LOGGER.trace(`${chalk.gray('[prefetch]')} waiting for cancelled build ${chalk.green(build.commit)} to be cleaned up...`);
+            await cancelled.promise;
+        }
+    }
+
+    /**
+     * Cancels all prefetches (except the provided one)
+     * and waits for them to be cleaned up.
+     */
+    async cancel(except?: IPrefetch): Promise<void> {
+        const cancelled = this.prefetches.filter(prefetch => prefetch !== except);
+        for (const prefetch of cancelled) {
+            this.cancelPrefetch(prefetch);
+        }
+
+        await Promise.all(cancelled.map(prefetch => prefetch.promise));
+
+        this.prefetches = this.prefetches.filter(prefetch => prefetch === except);
+    }
+
+    private findPrefetch(build: IBuild, options?: { started?: boolean, cancelled?: boolean }): IPrefetch | undefined {
+        return this.prefetches.find(prefetch =>
+            this.toKey(prefetch.build) === this.toKey(build) &&
+            prefetch.controller.signal.aborted === !!options?.cancelled &&
+            (!options?.started || !!prefetch.promise)
+        );
+    }
+
+    private cancelPrefetch(prefetch: IPrefetch): void {
+        if (!prefetch.controller.signal.aborted) {
+            LOGGER.trace(`${chalk.gray('[prefetch]')} cancelling build ${chalk.green(prefetch.build.commit)}`);
+            prefetch.controller.abort();
+        }
+    }
+
+    private startPrefetches(): void {
+        const { concurrency, maxBytesPerSecond } = CONFIG.prefetch!;
+
+        for (const prefetch of this.prefetches) {
+            const running = this.prefetches.filter(prefetch => prefetch.promise && !prefetch.controller.signal.aborted).length;
+            if (running >= concurrency) {
+                return;
+            }
+
+            if (prefetch.promise || prefetch.controller.signal.aborted) {
+                continue;
+            }
+
+            // Share the bandwidth limit among the concurrent downloads
+            prefetch.promise = this.doPrefetch(prefetch, maxBytesPerSecond ? Math.floor(maxBytesPerSecond / concurrency) : undefined).finally(() => {
+                this.prefetches = this.prefetches.filter(candidate => candidate !== prefetch);
+                this.startPrefetches();
+            });
+        }
+    }
+
+    private async doPrefetch({ build, controller, cancelled }: IPrefetch, maxBytesPerSecond: number | undefined): Promise<void> {
+        try {
+            await cancelled?.promise;
+            if (controller.signal.aborted) {
+                return;
+            }
+
+            LOGGER.trace(`${chalk.gray('[prefetch]')} downloading build ${chalk.green(build.commit)} in the background...`);
+            await builds.downloadAndExtractBuild(build, { forceReDownload: false, silent: true, signal: controller.signal, maxBytesPerSecond });
+            LOGGER.trace(`${chalk.gray('[prefetch]')} build ${chalk.green(build.commit)} is ready`);
+        } catch (error) {
+            LOGGER.trace(`${chalk.gray('[prefetch]')} ${controller.signal.aborted ? 'cancelled' : 'failed to download'} build ${chalk.green(build.commit)}: ${error}`); // partial downloads are removed by the build
+        }
+    }
+
+    private canPrefetch({ runtime, flavor }: IBuild): boolean {
+        return runtime !== Runtime.WebRemote && !isDockerCliFlavor(flavor); // nothing to download
+    }
+
+    private toKey({ runtime, commit, quality, flavor }: IBuild): string {
+        return `${runtime}-${quality}-${flavor}-${commit}`;
+    }
+}
+
+export const prefetcher = new Prefetcher();
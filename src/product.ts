@@ -0,0 +1,224 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import chalk from 'chalk';
+import { promises } from 'node:fs';
+
+/**
+ * Names of a product for one quality, following
+ * the properties of the same name in `product.json`.
+ */
+export interface IProductQuality {
+
+    /**
+     * Name of the quality in the update service, e.g. `insider`.
+     */
+    readonly updateName: string;
+
+    /**
+     * Suffix of product versions, e.g. `-insider` for `1.96.0-insider`.
+     */
+    readonly versionSuffix: string;
+
+    /**
+     * Linux and CLI executable and package name, e.g. `code-insiders`.
+     */
+    readonly applicationName: string;
+
+    /**
+     * macOS and Windows executable name, e.g. `Code - Insiders`.
+     */
+    readonly nameShort: string;
+
+    /**
+     * macOS application name, e.g. `Visual Studio Code - Insiders`.
+     */
+    readonly nameLong: string;
+
+    /**
+     * Windows installation folder, e.g. `Microsoft VS Code Insiders`.
+     */
+    readonly win32DirName: string;
+
+    /**
+     * Server executable name, e.g. `code-server-insiders`.
+     */
+    readonly serverApplicationName: string;
+
+    /**
+     * Web URL template where `{commit}` is replaced with the commit,
+     * the authenticated one is used when a GitHub token is provided.
+     */
+    readonly webUrl?: string;
+    readonly authenticatedWebUrl?: string;
+}
+
+export interface IProduct {
+    readonly id: string;
+
+    /**
+     * Default update service, products without one can only
+     * be bisected via `--builds` or `--update-url`.
+     */
+    readonly updateUrl?: string;
+
+    /**
+     * Prefixes of archive and folder names, e.g. `VSCode` for
+     * `VSCode-linux-x64`, `vscode-server` for `vscode-server-linux-x64-web`
+     * and `vscode_cli` for `vscode_cli_linux_x64_cli.tar.gz`.
+     */
+    readonly archivePrefix: string;
+    readonly serverArchivePrefix: string;
+    readonly cliArchivePrefix: string;
+
+    /**
+     * Command line flags to use dedicated data folders.
+     */
+    readonly userDataDirFlag: string;
+    readonly extensionsDirFlag: string;
+
+    /**
+     * Names per quality (channel) of builds, e.g. `insider`,
+     * `stable` or `exploration`.
+     */
+    readonly qualities: { readonly [quality: string]: IProductQuality };
+}
+
+export const VSCODE_PRODUCT: IProduct = {
+    id: 'vscode',
+    updateUrl: 'https://update.code.visualstudio.com',
+    archivePrefix: 'VSCode',
+    serverArchivePrefix: 'vscode-server',
+    cliArchivePrefix: 'vscode_cli',
+    userDataDirFlag: '--user-data-dir',
+    extensionsDirFlag: '--extensions-dir',
+    qualities: {
+        insider: {
+            updateName: 'insider',
+            versionSuffix: '-insider',
+            applicationName: 'code-insiders',
+            nameShort: 'Code - Insiders',
+            nameLong: 'Visual Studio Code - Insiders',
+            win32DirName: 'Microsoft VS Code Insiders',
+            serverApplicationName: 'code-server-insiders',
+            webUrl: 'https://insiders.vscode.dev/?vscode-version={commit}',
+            authenticatedWebUrl: 'https://insiders.vscode.dev/github/microsoft/vscode/blob/main/package.json?vscode-version={commit}'
+        },
+        stable: {
+            updateName: 'stable',
+            versionSuffix: '',
+            applicationName: 'code',
+            nameShort: 'Code',
+            nameLong: 'Visual Studio Code',
+            win32DirName: 'Microsoft VS Code',
+            serverApplicationName: 'code-server',
+            webUrl: 'https://vscode.dev/?vscode-version={commit}',
+            authenticatedWebUrl: 'https://vscode.dev/github/microsoft/vscode/blob/main/package.json?vscode-version={commit}'
+        },
+        exploration: {
+            updateName: 'exploration',
+            versionSuffix: '-exploration',
+            applicationName: 'code-exploration',
+            nameShort: 'Code - Exploration',
+            nameLong: 'Visual Studio Code - Exploration',
+            win32DirName: 'Microsoft VS Code Exploration',
+            serverApplicationName: 'code-server-exploration'
+        }
+    }
+};
+
+const CODE_OSS_QUALITY: IProductQuality = {
+    updateName: 'oss',
+    versionSuffix: '',
+    applicationName: 'code-oss',
+    nameShort: 'Code - OSS',
+    nameLong: 'Code - OSS',
+    win32DirName: 'Code - OSS',
+    serverApplicationName: 'code-server-oss'
+};
+
+export const CODE_OSS_PRODUCT: IProduct = {
+    ...VSCODE_PRODUCT,
+    id: 'code-oss',
+    updateUrl: undefined,
+    qualities: {
+        insider: CODE_OSS_QUALITY,
+        stable: CODE_OSS_QUALITY
+    }
+};
+
+const BUILTIN_PRODUCTS = [VSCODE_PRODUCT, CODE_OSS_PRODUCT];
+
+/**
+ * Loads a built-in product by id or a product from a JSON
+ * file. Properties missing in the file are taken from the
+ * product the file `extends` (`vscode` by default).
+ */
+export async function loadProduct(idOrPath: string): Promise<IProduct> {
+    const builtin = BUILTIN_PRODUCTS.find(product => product.id === idOrPath);
+    if (builtin) {
+        return builtin;
+    }
+
+    let contents: string;
+    try {
+        contents = (await promises.readFile(idOrPath)).toString();
+    } catch (error) {
+        throw new Error(`Unknown product ${chalk.green(idOrPath)}. Please provide one of ${BUILTIN_PRODUCTS.map(product => chalk.green(product.id)).join(', ')} or a JSON file.`);
+    }
+
+    try {
+        return parseProduct(JSON.parse(contents));
+    } catch (error) {
+        throw new Error(`Invalid product file ${chalk.green(idOrPath)}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+export function parseProduct(value: Partial<Omit<IProduct, 'qualities'>> & { extends?: string, qualities?: { [quality: string]: Partial<IProductQuality> } }): IProduct {
+    if (typeof value?.id !== 'string' || !/^[a-z0-9-]+$/.test(value.id)) {
+        throw new Error(`an ${chalk.green('id')} of lowercase letters, digits and dashes is required`);
+    }
+
+    const base = BUILTIN_PRODUCTS.find(product => product.id === (value.extends ?? VSCODE_PRODUCT.id));
+    if (!base) {
+        throw new Error(`unknown product ${chalk.green(value.extends)} to extend`);
+    }
+
+    const { extends: _, qualities, ...properties } = value;
+
+    const mergedQualities: { [quality: string]: IProductQuality } = { ...base.qualities };
+    for (const [quality, names] of Object.entries(qualities ?? {})) {
+        if (!/^[a-z][a-z0-9-]*$/.test(quality)) {
+            throw new Error(`quality ${chalk.green(quality)} must consist of lowercase letters, digits and dashes`);
+        }
+
+        // New qualities start from the insider names of the base product
+        mergedQualities[quality] = { ...(base.qualities[quality] ?? { ...base.qualities.insider, updateName: quality, webUrl: undefined, authenticatedWebUrl: undefined }), ...names };
+    }
+
+    const product: IProduct = {
+        ...base,
+        ...properties,
+        id: value.id,
+        qualities: mergedQualities
+    };
+
+    for (const [key, property] of [...Object.entries(product), ...Object.values(product.qualities).flatMap(names => Object.entries(names))]) {
+        if (key !== 'qualities' && property !== undefined && typeof property !== 'string') {
+            throw new Error(`${chalk.green(key)} must be a string`);
+        }
+    }
+
+    return product;
+}
+
+export function getProductQuality(product: IProduct, quality: string): IProductQuality {
+    const names = Object.prototype.hasOwnProperty.call(product.qualities, quality) ? product.qualities[quality] : undefined;
+    if (!names) {
+        throw new Error(`Product ${chalk.green(product.id)} has no quality ${chalk.green(quality)}, please use one of ${Object.keys(product.qualities).map(quality => chalk.green(quality)).join(', ')}.`);
+    }
+
+    return names;
+}
@@ -0,0 +1,191 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import chalk from 'chalk';
+import { formatBuildInfo, IBuild, IBuildInfo } from './builds.js';
+import { CONFIG } from './constants.js';
+import { BisectVerdict } from './state.js';
+
+export interface IBisectProgress {
+
+    /**
+     * Builds to bisect, newest first.
+     */
+    readonly builds: IBuild[];
+
+    readonly badIndex: number;
+    readonly goodIndex: number;
+    readonly currentIndex: number;
+    readonly skipped: number[];
+    readonly excludedCount: number;
+    readonly answers: { readonly commit: string, readonly verdict: BisectVerdict }[];
+
+    /**
+     * Product version and date of the current build if known.
+     */
+    readonly info?: IBuildInfo;
+
+    /**
+     * Confidence in the most likely first bad build
+     * when bisecting flaky issues.
+     */
+    readonly confidence?: number;
+}
+
+const enum Marker {
+    Good = 1,
+    Bad,
+    Skipped,
+    Untested,
+    Current
+}
+
+class ProgressView {
+
+    private static readonly WIDTH = 64;
+    private static readonly MAX_ANSWERS = 8;
+
+    /**
+     * Draws the progress panel, replacing the previous one
+     * when `clear` is set.
+     */
+    render(progress: IBisectProgress, options: { clear: boolean }): void {
+        if (options.clear) {
+            console.clear();
+        }
+
+        console.log(this.format(progress).join('\n'));
+    }
+
+    format({ builds, badIndex, goodIndex, currentIndex, skipped, excludedCount, answers, info, confidence }: IBisectProgress): string[] {
+        const terms = CONFIG.terms;
+        const skippedSet = new Set(skipped);
+        const current = builds[currentIndex];
+
+        const lines = [
+            chalk.green(`${'─'.repeat(3)} ${chalk.bold('VS Code Build Bisecter')} ${'─'.repeat(ProgressView.WIDTH - 28)}`)
+        ];
+
+        // Range with the number of builds left to test
+        const oldest = builds[Math.min(goodIndex, builds.length - 1)];
+        const newest = builds[Math.max(badIndex, 0)];
+        let remaining = 0;
+        for (let i = badIndex + 1; i < goodIndex; i++) {
+            if (!skippedSet.has(i)) {
+                remaining++;
+            }
+        }
+
+        const status = typeof confidence === 'number' ?
+            `${chalk.green(`${(confidence * 100).toFixed(1)}%`)} confidence so far` :
+            `${chalk.green(remaining)} of ${chalk.green(builds.length)} builds left, roughly ${chalk.green(Math.ceil(Math.log2(remaining + 1)))} steps`;
+
+        // Endpoints are only known once they have been answered
+        const oldestLabel = goodIndex < builds.length ? terms.old : 'untested';
+        const newestLabel = badIndex >= 0 ? terms.new : 'untested';
+        lines.push(this.formatRow('range', `${oldestLabel} ${chalk.green(this.shorten(oldest.commit))} … ${newestLabel} ${chalk.green(this.shorten(newest.commit))} (${status})`));
+
+        // Timeline from oldest to newest build
+        lines.push(this.formatRow('timeline', `oldest ${this.formatTimeline(builds.length, badIndex, goodIndex, currentIndex, skippedSet)} newest`));
+        lines.push(this.formatRow('', `${chalk.green('●')} ${terms.old}  ${chalk.red('●')} ${terms.new}  ${chalk.yellow('▲')} current  ${chalk.gray('x')} skipped  ${chalk.gray('·')} untested`));
+
+        // Current build
+        if (current) {
+            lines.push(this.formatRow('current', `${chalk.green(current.commit)}${formatBuildInfo(info)}`));
+        }
+
+        // Skipped and excluded builds
+        if (skippedSet.size > 0 || excludedCount > 0) {
+            lines.push(this.formatRow('skipped', `${chalk.green(skippedSet.size)} skipped, ${chalk.green(excludedCount)} excluded`));
+        }
+
+        // Answers so far
+        lines.push(this.formatRow('answers', answers.length === 0 ? 'none yet' : `${chalk.green(answers.length)} so far`));
+        if (answers.length > ProgressView.MAX_ANSWERS) {
+            lines.push(this.formatRow('', chalk.gray(`… ${answers.length - ProgressView.MAX_ANSWERS} more`)));
+        }
+
+        for (const { commit, verdict } of answers.slice(-ProgressView.MAX_ANSWERS)) {
+            lines.push(this.formatRow('', `${this.formatVerdict(verdict)} ${this.shorten(commit)}`));
+        }
+
+        lines.push(chalk.green('─'.repeat(ProgressView.WIDTH)));
+
+        return lines;
+    }
+
+    private formatTimeline(count: number, badIndex: number, goodIndex: number, currentIndex: number, skipped: Set<number>): string {
+        const markerOf = (index: number): Marker => {
+            if (index === currentIndex) {
+                return Marker.Current;
+            }
+
+            if (index <= badIndex) {
+                return Marker.Bad;
+            }
+
+            if (index >= goodIndex) {
+                return Marker.Good;
+            }
+
+            return skipped.has(index) ? Marker.Skipped : Marker.Untested;
+        };
+
+        // Every slot covers one or more builds and shows the
+        // most relevant marker of them when there are more
+        // builds than space
+        const slots = Math.min(count, ProgressView.WIDTH - 24);
+        let timeline = '';
+        for (let slot = 0; slot < slots; slot++) {
+            const from = Math.floor(slot * count / slots);
+            const to = Math.floor((slot + 1) * count / slots);
+
+            let marker = Marker.Good;
+            for (let i = from; i < to; i++) {
+                marker = Math.max(marker, markerOf(count - 1 - i)); // oldest build is last
+            }
+
+            timeline += this.formatMarker(marker);
+        }
+
+        return timeline;
+    }
+
+    private formatMarker(marker: Marker): string {
+        switch (marker) {
+            case Marker.Good:
+                return chalk.green('●');
+            case Marker.Bad:
+                return chalk.red('●');
+            case Marker.Skipped:
+                return chalk.gray('x');
+            case Marker.Untested:
+                return chalk.gray('·');
+            case Marker.Current:
+                return chalk.yellow('▲');
+        }
+    }
+
+    private formatVerdict(verdict: BisectVerdict): string {
+        switch (verdict) {
+            case 'good':
+                return chalk.green(CONFIG.terms.old);
+            case 'bad':
+                return chalk.red(CONFIG.terms.new);
+            case 'skip':
+                return chalk.gray('skip');
+        }
+    }
+
+    private formatRow(label: string, value: string): string {
+        return ` ${chalk.gray(label.padEnd(9))} ${value}`;
+    }
+
+    private shorten(commit: string): string {
+        return commit.substring(0, 10);
+    }
+}
+
+export const progressView = new ProgressView();
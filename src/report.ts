@@ -0,0 +1,143 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import chalk from 'chalk';
+import { promises } from 'node:fs';
+import { dirname, extname } from 'node:path';
+import { IBuildKind } from './builds.js';
+import { ITerms, LOGGER } from './constants.js';
+import { IChangedArea } from './git.js';
+import { BisectVerdict } from './state.js';
+
+export interface IBisectReportBuild {
+    readonly commit: string;
+    readonly productVersion?: string;
+}
+
+export interface IBisectReport {
+    readonly kind: IBuildKind;
+    readonly platform: string;
+    readonly terms: ITerms;
+
+    /**
+     * First bad and last good build if found.
+     */
+    readonly badBuild?: IBisectReportBuild;
+    readonly goodBuild?: IBisectReportBuild;
+
+    /**
+     * Probability of the bad build to be the first
+     * bad build when bisecting flaky issues.
+     */
+    readonly confidence?: number;
+
+    readonly steps: number;
+    readonly tested: { readonly commit: string, readonly verdict: BisectVerdict }[];
+    readonly skipped: string[];
+    readonly excluded: string[];
+    readonly compareUrl?: string;
+
+    /**
+     * Areas changed between the good and bad build,
+     * ranked by lines changed and number of commits.
+     */
+    readonly changedAreas?: IChangedArea[];
+
+    readonly args: string[];
+}
+
+class BisectReport {
+
+    /**
+     * Writes the report as JSON if the file has a `.json`
+     * extension or as Markdown otherwise.
+     */
+    async write(path: string, report: IBisectReport): Promise<void> {
+        const contents = extname(path).toLowerCase() === '.json' ? this.formatJSON(report) : this.formatMarkdown(report);
+
+        await promises.mkdir(dirname(path), { recursive: true });
+        await promises.writeFile(path, contents);
+
+        LOGGER.log(`${chalk.gray('[build]')} bisect report written to ${chalk.green(path)}`);
+    }
+
+    formatJSON(report: IBisectReport): string {
+        return `${JSON.stringify(report, undefined, 4)}\n`;
+    }
+
+    formatMarkdown(report: IBisectReport): string {
+        const { kind, terms } = report;
+        const lines: string[] = ['## Bisect Result', ''];
+
+        if (report.badBuild && report.goodBuild) {
+            const confidence = typeof report.confidence === 'number' ? ` with ${(report.confidence * 100).toFixed(1)}% confidence` : '';
+            lines.push(`${this.formatBuild(report.badBuild)} is the first ${terms.new} build after ${this.formatBuild(report.goodBuild)}${confidence}.`);
+        } else if (report.badBuild) {
+            lines.push(`All tested builds are ${terms.new}, the oldest one being ${this.formatBuild(report.badBuild)}.`);
+        } else if (report.goodBuild) {
+            lines.push(`All tested builds are ${terms.old}, the newest one being ${this.formatBuild(report.goodBuild)}.`);
+        } else {
+            lines.push(`Unable to determine the first ${terms.new} build.`);
+        }
+
+        if (report.skipped.length > 0 && report.badBuild && report.goodBuild) {
+            lines.push('', `Some builds were skipped, the first ${terms.new} build could also be one of the skipped builds.`);
+        }
+
+        if (report.compareUrl) {
+            lines.push('', `Changes: ${report.compareUrl}`);
+        }
+
+        lines.push(
+            '',
+            '| | |',
+            '|---|---|',
+            `| Runtime | ${this.formatCell(kind.runtime)} |`,
+            `| Quality | ${this.formatCell(kind.quality)} |`,
+            `| Flavor | ${this.formatCell(kind.flavor)} |`,
+            `| Platform | ${this.formatCell(report.platform)} |`,
+            `| Arguments | ${report.args.length > 0 ? `\`${this.formatCell(report.args.join(' '))}\`` : '-'} |`,
+            `| Steps | ${report.steps} |`
+        );
+
+        if (report.tested.length > 0) {
+            lines.push('', '### Tested Builds', '', '| # | Commit | Verdict |', '|---|---|---|');
+            report.tested.forEach(({ commit, verdict }, index) => {
+                lines.push(`| ${index + 1} | \`${commit}\` | ${verdict === 'good' ? terms.old : verdict === 'bad' ? terms.new : 'skip'} |`);
+            });
+        }
+
+        if (report.skipped.length > 0) {
+            lines.push('', '### Skipped Builds', '', ...report.skipped.map(commit => `- \`${commit}\``));
+        }
+
+        if (report.excluded.length > 0) {
+            lines.push('', '### Excluded Builds', '', ...report.excluded.map(commit => `- \`${commit}\``));
+        }
+
+        if (report.changedAreas && report.changedAreas.length > 0) {
+            lines.push('', '### Changed Areas', '', '| Area | Lines Changed | Commits |', '|---|---|---|');
+            for (const { area, linesChanged, commits } of report.changedAreas) {
+                lines.push(`| \`${this.formatCell(area)}\` | ${linesChanged} | ${commits} |`);
+            }
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    /**
+     * Table cells cannot span lines and `|` ends
+     * a cell, even within code spans.
+     */
+    private formatCell(value: string): string {
+        return value.replace(/\s*[\r\n]+\s*/g, ' ').replace(/\|/g, '\\|');
+    }
+
+    private formatBuild({ commit, productVersion }: IBisectReportBuild): string {
+        return productVersion ? `\`${commit}\` (${productVersion})` : `\`${commit}\``;
+    }
+}
+
+export const bisectReport = new BisectReport();
@@ -0,0 +1,211 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import chalk from 'chalk';
+import { IBuild } from './builds.js';
+import { CONFIG, LOGGER } from './constants.js';
+import { computePosterior, findMostInformativeIndex, findMostLikely, IFlakyObservation, IFlakyOptions } from './flaky.js';
+
+export type BisectVerdict = 'good' | 'bad' | 'skip';
+
+export interface IBisectState {
+
+    /**
+     * Index of the oldest build known to be bad or
+     * `-1` if no build is known to be bad yet.
+     */
+    badIndex: number;
+
+    /**
+     * Index of the newest build known to be good or
+     * the number of builds if no build is known to be
+     * good yet.
+     */
+    goodIndex: number;
+
+    /**
+     * Index of the build to try next.
+     */
+    currentIndex: number;
+
+    /**
+     * Indices of builds that could not be tested.
+     */
+    skipped: number[];
+
+    /**
+     * Options and answers when bisecting flaky
+     * issues probabilistically via `--flaky`.
+     */
+    flaky?: IFlakyOptions & { readonly count: number, readonly observations: IFlakyObservation[] };
+}
+
+export interface IBisectResult {
+    readonly badBuild: IBuild | undefined;
+    readonly goodBuild: IBuild | undefined;
+
+    /**
+     * Skipped builds between the good and bad build,
+     * any of which could be the first bad build.
+     */
+    readonly skippedBuilds: IBuild[];
+
+    /**
+     * Probability of the bad build to be the first bad
+     * build when bisecting flaky issues.
+     */
+    readonly confidence?: number;
+}
+
+export function createState(count: number, flaky?: IFlakyOptions): IBisectState {
+    const state: IBisectState = { badIndex: -1, goodIndex: count, currentIndex: -1, skipped: [] };
+    if (flaky) {
+        state.flaky = { ...flaky, count, observations: [] };
+    }
+
+    state.currentIndex = findNextIndex(state) ?? -1;
+
+    return state;
+}
+
+export function cloneState(state: IBisectState): IBisectState {
+    return {
+        ...state,
+        skipped: [...state.skipped],
+        flaky: state.flaky ? { ...state.flaky, observations: [...state.flaky.observations] } : undefined
+    };
+}
+
+/**
+ * Applies the verdict for the build at the index (the
+ * current build by default) and picks the next build.
+ * Returns `true` when bisecting is done.
+ */
+export function nextState(state: IBisectState, verdict: BisectVerdict, index = state.currentIndex): boolean {
+    if (state.flaky) {
+        return nextFlakyState(state, state.flaky, verdict, index);
+    }
+
+    switch (verdict) {
+        case 'good':
+            state.goodIndex = Math.min(state.goodIndex, index);
+            break;
+        case 'bad':
+            state.badIndex = Math.max(state.badIndex, index);
+            break;
+        case 'skip':
+            state.skipped.push(index);
+            break;
+    }
+
+    const nextIndex = findNextIndex(state);
+
+    // Binary search is done
+    if (nextIndex === undefined) {
+        state.currentIndex = -1;
+
+        return true;
+    }
+
+    // Binary search is not done
+    state.currentIndex = nextIndex;
+
+    return false;
+}
+
+/**
+ * Indices of the builds to try after the current build
+ * when it is good or bad, e.g. to download them ahead.
+ */
+export function getNextIndices(state: IBisectState): number[] {
+    if (state.currentIndex < 0) {
+        return [];
+    }
+
+    const indices = new Set<number>();
+    for (const verdict of ['good', 'bad'] as const) {
+        const next = cloneState(state);
+        if (!nextState(next, verdict)) {
+            indices.add(next.currentIndex);
+        }
+    }
+
+    return [...indices];
+}
+
+/**
+ * Whether the verdict for the build at the index
+ * contradicts verdicts given before.
+ */
+export function isContradiction(state: IBisectState, verdict: BisectVerdict, index: number): boolean {
+    return (verdict === 'good' && index <= state.badIndex) || (verdict === 'bad' && index >= state.goodIndex);
+}
+
+export function computeConfidence(state: IBisectState): number | undefined {
+    if (!state.flaky) {
+        return undefined;
+    }
+
+    return findMostLikely(computePosterior(state.flaky.count, state.flaky.observations, state.flaky)).probability;
+}
+
+export function getResult(state: IBisectState, builds: IBuild[]): IBisectResult {
+    const { badIndex, goodIndex } = state;
+    const skippedBuilds = state.skipped
+        .filter(index => index > badIndex && index < goodIndex)
+        .sort((a, b) => a - b)
+        .map(index => builds[index]);
+
+    return { badBuild: builds[badIndex], goodBuild: builds[goodIndex], skippedBuilds, confidence: computeConfidence(state) };
+}
+
+function nextFlakyState(state: IBisectState, flaky: NonNullable<IBisectState['flaky']>, verdict: BisectVerdict, index: number): boolean {
+    if (verdict === 'skip') {
+        state.skipped.push(index);
+    } else {
+        flaky.observations.push({ index, bad: verdict === 'bad' });
+    }
+
+    const posterior = computePosterior(flaky.count, flaky.observations, flaky);
+    const mostLikely = findMostLikely(posterior);
+    const nextIndex = findMostInformativeIndex(posterior, flaky, new Set(state.skipped));
+
+    // Probabilistic bisect is done when a build reached
+    // the confidence or no build is left to test
+    if (mostLikely.probability >= flaky.confidence || nextIndex === undefined) {
+        state.badIndex = mostLikely.index;
+        state.goodIndex = mostLikely.index + 1;
+        state.currentIndex = -1;
+
+        return true;
+    }
+
+    LOGGER.trace(`${chalk.gray('[build]')} most likely first ${CONFIG.terms.new} build is ${chalk.green(mostLikely.index)} with ${chalk.green(`${Math.round(mostLikely.probability * 100)}%`)} confidence`);
+
+    state.currentIndex = nextIndex;
+
+    return false;
+}
+
+function findNextIndex(state: IBisectState): number | undefined {
+    if (state.flaky) {
+        return findMostInformativeIndex(computePosterior(state.flaky.count, state.flaky.observations, state.flaky), state.flaky, new Set(state.skipped));
+    }
+
+    const skipped = new Set(state.skipped);
+    const middle = Math.floor((state.badIndex + state.goodIndex) / 2);
+
+    // Pick the middle of the range or its nearest
+    // neighbour in case the middle was skipped
+    for (let distance = 0; middle - distance > state.badIndex || middle + distance < state.goodIndex; distance++) {
+        for (const candidate of [middle - distance, middle + distance]) {
+            if (candidate > state.badIndex && candidate < state.goodIndex && !skipped.has(candidate)) {
+                return candidate;
+            }
+        }
+    }
+
+    return undefined;
+}
@@ -4,11 +4,19 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { promises } from 'node:fs';
+import { dirname } from 'node:path';
 import { STORAGE_FILE } from './constants.js';
 
 class Storage {
 
-    private readonly whenReady = this.init();
+    private _whenReady: Promise<{ [key: string]: object }> | undefined = undefined;
+    private get whenReady(): Promise<{ [key: string]: object }> {
+        if (!this._whenReady) {
+            this._whenReady = this.init();
+        }
+
+        return this._whenReady;
+    }
 
     private async init(): Promise<{ [key: string]: object }> {
         try {
@@ -25,6 +33,18 @@ class Storage {
         storage[key] = value;
 
         // Persist on disk
+        await promises.mkdir(dirname(STORAGE_FILE), { recursive: true });
+        await promises.writeFile(STORAGE_FILE, JSON.stringify(storage));
+    }
+
+    async remove(key: string): Promise<void> {
+        const storage = await this.whenReady;
+
+        // Remove from in-memory
+        delete storage[key];
+
+        // Persist on disk
+        await promises.mkdir(dirname(STORAGE_FILE), { recursive: true });
         await promises.writeFile(STORAGE_FILE, JSON.stringify(storage));
     }
 
@@ -0,0 +1,74 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { BisectSession, IBisectResult } from '../api.js';
+import { IBuild, IBuildKind } from '../builds.js';
+import { Flavor, Quality, Runtime, setTesting } from '../constants.js';
+
+setTesting(true);
+
+const KIND: IBuildKind = { runtime: Runtime.DesktopLocal, quality: Quality.Insider, flavor: Flavor.Default };
+
+function createBuilds(count: number): IBuild[] {
+    return Array.from({ length: count }, (_, i) => ({ ...KIND, commit: i.toString(16).padStart(40, '0') }));
+}
+
+describe('Bisect API', () => {
+
+    test('bisects to the first bad build via mark()', () => {
+        const builds = createBuilds(100);
+        const session = new BisectSession(KIND, builds);
+
+        let finished: IBisectResult | undefined;
+        session.on('finish', result => finished = result);
+
+        const firstBad = 37;
+        let steps = 0;
+        while (session.current) {
+            session.mark(builds.indexOf(session.current) <= firstBad ? 'bad' : 'good');
+            steps++;
+        }
+
+        assert.ok(session.isFinished);
+        assert.ok(steps <= 7, `expected at most 7 steps, got ${steps}`);
+        assert.strictEqual(session.result?.badBuild, builds[firstBad]);
+        assert.strictEqual(session.result?.goodBuild, builds[firstBad + 1]);
+        assert.deepStrictEqual(finished, session.result);
+        assert.throws(() => session.mark('good'));
+    });
+
+    test('undo restores the previous build', () => {
+        const session = new BisectSession(KIND, createBuilds(10));
+
+        assert.strictEqual(session.undo(), false);
+
+        const first = session.current;
+        session.mark('bad');
+        assert.notStrictEqual(session.current, first);
+
+        assert.strictEqual(session.undo(), true);
+        assert.strictEqual(session.current, first);
+    });
+
+    test('skipped builds are reported as candidates', () => {
+        const builds = createBuilds(3);
+        const session = new BisectSession(KIND, builds);
+
+        assert.strictEqual(session.current, builds[1]);
+        session.mark('skip');
+        assert.strictEqual(session.current, builds[0]);
+        session.mark('bad');
+        assert.strictEqual(session.current, builds[2]);
+        session.mark('good');
+
+        assert.deepStrictEqual(session.result, { badBuild: builds[0], goodBuild: builds[2], skippedBuilds: [builds[1]], confidence: undefined });
+    });
+
+    test('requires at least two builds', () => {
+        assert.throws(() => new BisectSession(KIND, createBuilds(1)));
+    });
+});
@@ -0,0 +1,93 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe, mock } from 'node:test';
+import assert from 'node:assert';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { builds, formatBuildInfo, IBuild, parseDate, partitionByHistory } from '../builds.js';
+import { CONFIG, Flavor, Platform, platform, Quality, Runtime, setTesting } from '../constants.js';
+import { getBuildPath } from '../files.js';
+import { git } from '../git.js';
+
+setTesting(true);
+
+function createBuild(commit: string): IBuild {
+    return { commit, runtime: Runtime.DesktopLocal, quality: Quality.Insider, flavor: Flavor.Default };
+}
+
+describe('Builds', () => {
+
+    test('drops builds that are not part of the history', () => {
+        const history = ['e', 'd', 'c', 'b', 'a'];
+        const { builds, dropped } = partitionByHistory(['e', 'release', 'c', 'a'].map(createBuild), history);
+
+        assert.deepStrictEqual(builds.map(build => build.commit), ['e', 'c', 'a']);
+        assert.deepStrictEqual(dropped.map(build => build.commit), ['release']);
+    });
+
+    test('drops builds that are out of order', () => {
+        const history = ['e', 'd', 'c', 'b', 'a'];
+        const { builds, dropped } = partitionByHistory(['e', 'c', 'd', 'b'].map(createBuild), history);
+
+        assert.deepStrictEqual(builds.map(build => build.commit), ['e', 'c', 'b']);
+        assert.deepStrictEqual(dropped.map(build => build.commit), ['d']);
+    });
+
+    test('keeps older builds after a build that is out of order', () => {
+        const history = ['e', 'd', 'c', 'b', 'a'];
+        const { builds, dropped } = partitionByHistory(['b', 'e', 'd', 'c', 'a'].map(createBuild), history);
+
+        assert.deepStrictEqual(builds.map(build => build.commit), ['e', 'd', 'c', 'a']);
+        assert.deepStrictEqual(dropped.map(build => build.commit), ['b']);
+    });
+
+    test('formats product version and date of builds', () => {
+        const timestamp = Date.UTC(2024, 10, 1);
+
+        assert.strictEqual(formatBuildInfo({ productVersion: '1.96.0-insider', timestamp }), ` (1.96.0-insider, ${new Date(timestamp).toLocaleString()})`);
+        assert.strictEqual(formatBuildInfo({ productVersion: '1.96.0-insider' }), ' (1.96.0-insider)');
+        assert.strictEqual(formatBuildInfo(undefined), '');
+    });
+
+    test('parses absolute and relative dates', () => {
+        const now = Date.UTC(2024, 10, 20, 12);
+
+        assert.strictEqual(parseDate('2w', now), now - 14 * 24 * 60 * 60 * 1000);
+        assert.strictEqual(parseDate('3d', now), now - 3 * 24 * 60 * 60 * 1000);
+        assert.strictEqual(parseDate('2024-11-05', now), new Date(2024, 10, 5, 23, 59, 59, 999).getTime());
+        assert.strictEqual(parseDate('2024-11-05T10:00:00Z', now), Date.UTC(2024, 10, 5, 10));
+        assert.strictEqual(parseDate('2024-02-30', now), undefined);
+        assert.strictEqual(parseDate('1.95', now), undefined);
+        assert.strictEqual(parseDate('2', now), undefined);
+    });
+
+    test('lists extracted builds without metadata offline', { skip: platform === Platform.WindowsX64 || platform === Platform.WindowsArm }, async () => {
+        const newer = createBuild('deadbeef'.repeat(5));
+        const older = createBuild('feedface'.repeat(5));
+        for (const build of [newer, older]) {
+            const executable = await builds.getBuildExecutable(build);
+            mkdirSync(dirname(executable), { recursive: true });
+            writeFileSync(executable, '');
+        }
+
+        // Ordered by commit date of the local clone
+        const now = Date.now();
+        mock.method(git, 'hasClone', async () => true);
+        mock.method(git, 'getCommitDate', async (commit: string) => commit === newer.commit ? now + 2000 : now + 1000);
+        CONFIG.offline = true;
+        try {
+            const buildsRange = await builds.fetchBuilds(newer, older.commit, newer.commit);
+            assert.deepStrictEqual(buildsRange.map(build => build.commit), [newer.commit, older.commit]);
+            assert.strictEqual(await builds.downloadAndExtractBuild(newer), getBuildPath(newer.commit, newer.quality, newer.flavor));
+        } finally {
+            CONFIG.offline = false;
+            mock.restoreAll();
+            for (const build of [newer, older]) {
+                rmSync(getBuildPath(build.commit, build.quality, build.flavor), { recursive: true, force: true });
+            }
+        }
+    });
+});
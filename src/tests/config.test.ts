@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readConfigFile, resolveEndpoints } from '../config.js';
+import { DEFAULT_UPDATE_URL, setTesting } from '../constants.js';
+import { CODE_OSS_PRODUCT } from '../product.js';
+
+setTesting(true);
+
+describe('Config', () => {
+
+    test('resolves endpoints from flags, environment and config file', () => {
+        const env = { VSCODE_BISECT_UPDATE_URL: 'https://env.example.com/', VSCODE_BISECT_MIRRORS: 'https://a.example.com,https://b.example.com/cache/' };
+        const configFile = { updateUrl: 'https://file.example.com', mirrors: ['https://c.example.com'] };
+
+        assert.deepStrictEqual(resolveEndpoints({}, {}, {}), { updateUrl: DEFAULT_UPDATE_URL, mirrors: [] });
+        assert.deepStrictEqual(resolveEndpoints({}, {}, configFile), { updateUrl: 'https://file.example.com', mirrors: ['https://c.example.com'] });
+        assert.deepStrictEqual(resolveEndpoints({}, env, configFile), { updateUrl: 'https://env.example.com', mirrors: ['https://a.example.com', 'https://b.example.com/cache'] });
+        assert.deepStrictEqual(resolveEndpoints({ updateUrl: 'http://localhost:8080', mirrors: ['http://localhost:8081'] }, env, configFile), { updateUrl: 'http://localhost:8080', mirrors: ['http://localhost:8081'] });
+    });
+
+    test('falls back to the update service of the product', () => {
+        assert.deepStrictEqual(resolveEndpoints({}, {}, {}, CODE_OSS_PRODUCT), { updateUrl: undefined, mirrors: [] });
+        assert.deepStrictEqual(resolveEndpoints({}, {}, {}, { ...CODE_OSS_PRODUCT, updateUrl: 'https://update.example.com/' }), { updateUrl: 'https://update.example.com', mirrors: [] });
+        assert.deepStrictEqual(resolveEndpoints({ updateUrl: 'https://flag.example.com' }, {}, {}, CODE_OSS_PRODUCT), { updateUrl: 'https://flag.example.com', mirrors: [] });
+    });
+
+    test('rejects invalid URLs', () => {
+        assert.throws(() => resolveEndpoints({ updateUrl: 'update.example.com' }, {}, {}));
+        assert.throws(() => resolveEndpoints({ mirrors: ['ftp://mirror.example.com'] }, {}, {}));
+    });
+
+    test('reads the config file', async () => {
+        const folder = mkdtempSync(join(tmpdir(), 'vscode-bisect-config-'));
+        try {
+            assert.deepStrictEqual(await readConfigFile(join(folder, 'missing.json')), {});
+
+            writeFileSync(join(folder, 'config.json'), JSON.stringify({ updateUrl: 'https://file.example.com' }));
+            assert.deepStrictEqual(await readConfigFile(join(folder, 'config.json')), { updateUrl: 'https://file.example.com' });
+
+            writeFileSync(join(folder, 'invalid.json'), '{');
+            await assert.rejects(readConfigFile(join(folder, 'invalid.json')));
+        } finally {
+            rmSync(folder, { recursive: true });
+        }
+    });
+});
@@ -0,0 +1,126 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileGet, getMirrorUrls, jsonGet, jsonGetIfNoneMatch } from '../fetch.js';
+import { CONFIG, setTesting } from '../constants.js';
+
+setTesting(true);
+
+const LARGE_BUILD = Buffer.alloc(32 * 1024, 'b');
+
+describe('Fetch', () => {
+
+    let server: Server;
+    let baseUrl: string;
+
+    before(async () => {
+
+        // Local stand-in for the update service and a mirror
+        server = createServer((req, res) => {
+            if (req.url === '/api/commits/insider/linux-x64') {
+                if (req.headers['if-none-match'] === '"v1"') {
+                    res.writeHead(304);
+                    res.end();
+                    return;
+                }
+
+                res.writeHead(200, { 'Content-Type': 'application/json', 'ETag': '"v1"' });
+                res.end(JSON.stringify(['2'.repeat(40), '1'.repeat(40)]));
+            } else if (req.url === '/api/commits/insider/linux-arm64') {
+                res.writeHead(200, { 'Content-Type': 'text/html' });
+                res.end('<html>Bad Gateway</html>');
+            } else if (req.url === '/insider/large.tar.gz') {
+                res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': LARGE_BUILD.length });
+                res.end(LARGE_BUILD);
+            } else if (req.url === '/mirror/insider/build.tar.gz') {
+                res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': 5 });
+                res.end('build');
+            } else {
+                res.writeHead(404);
+                res.end();
+            }
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    test('fetches JSON from a local update service', async () => {
+        assert.deepStrictEqual(await jsonGet(`${baseUrl}/api/commits/insider/linux-x64`), ['2'.repeat(40), '1'.repeat(40)]);
+        await assert.rejects(jsonGet(`${baseUrl}/api/unknown`));
+    });
+
+    test('sends the ETag of a previous response', async () => {
+        assert.deepStrictEqual(await jsonGetIfNoneMatch(`${baseUrl}/api/commits/insider/linux-x64`, undefined), { value: ['2'.repeat(40), '1'.repeat(40)], etag: '"v1"' });
+        assert.strictEqual(await jsonGetIfNoneMatch(`${baseUrl}/api/commits/insider/linux-x64`, '"v1"'), undefined);
+        assert.deepStrictEqual((await jsonGetIfNoneMatch(`${baseUrl}/api/commits/insider/linux-x64`, '"v0"'))?.etag, '"v1"');
+    });
+
+    test('rejects invalid JSON responses', async () => {
+        await assert.rejects(jsonGet(`${baseUrl}/api/commits/insider/linux-arm64`));
+    });
+
+    test('rejects invalid responses instead of a previous response', async () => {
+        await assert.rejects(jsonGetIfNoneMatch(`${baseUrl}/api/commits/insider/linux-arm64`, '"v1"'));
+        await assert.rejects(jsonGetIfNoneMatch(`${baseUrl}/api/unknown`, '"v1"'));
+    });
+
+    test('maps download URLs to mirrors', () => {
+        assert.deepStrictEqual(getMirrorUrls('https://vscode.download.prss.microsoft.com/dbazure/download/insider/build.tar.gz?x=1', ['https://mirror.example.com', 'http://localhost:8080/cache']), [
+            'https://mirror.example.com/dbazure/download/insider/build.tar.gz?x=1',
+            'http://localhost:8080/cache/dbazure/download/insider/build.tar.gz?x=1'
+        ]);
+    });
+
+    test('falls back to mirrors when downloading fails', async () => {
+        const folder = mkdtempSync(join(tmpdir(), 'vscode-bisect-fetch-'));
+        try {
+            CONFIG.mirrors = [`${baseUrl}/mirror`];
+            await fileGet(`${baseUrl}/insider/build.tar.gz`, join(folder, 'build.tar.gz'));
+
+            assert.strictEqual(readFileSync(join(folder, 'build.tar.gz')).toString(), 'build');
+        } finally {
+            CONFIG.mirrors = [];
+            rmSync(folder, { recursive: true });
+        }
+    });
+
+    test('limits the bandwidth of downloads', async () => {
+        const folder = mkdtempSync(join(tmpdir(), 'vscode-bisect-fetch-'));
+        try {
+            const start = Date.now();
+            await fileGet(`${baseUrl}/insider/large.tar.gz`, join(folder, 'large.tar.gz'), undefined, { maxBytesPerSecond: 64 * 1024, silent: true });
+
+            assert.ok(Date.now() - start >= 400);
+            assert.deepStrictEqual(readFileSync(join(folder, 'large.tar.gz')), LARGE_BUILD);
+        } finally {
+            rmSync(folder, { recursive: true });
+        }
+    });
+
+    test('cancels downloads', async () => {
+        const folder = mkdtempSync(join(tmpdir(), 'vscode-bisect-fetch-'));
+        try {
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 100);
+
+            await assert.rejects(fileGet(`${baseUrl}/insider/large.tar.gz`, join(folder, 'large.tar.gz'), undefined, { maxBytesPerSecond: 16 * 1024, silent: true, signal: controller.signal }));
+            assert.deepStrictEqual(readdirSync(folder), []);
+        } finally {
+            rmSync(folder, { recursive: true });
+        }
+    });
+});
@@ -0,0 +1,90 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { computePosterior, findMostInformativeIndex, findMostLikely, IFlakyObservation, IFlakyOptions } from '../flaky.js';
+
+function createRandom(seed: number): () => number {
+    return () => {
+        seed = (seed * 1664525 + 1013904223) % 4294967296;
+
+        return seed / 4294967296;
+    };
+}
+
+function bisect(count: number, culprit: number, options: IFlakyOptions, random: () => number, observations: IFlakyObservation[] = []): { index: number, steps: number } {
+    for (let steps = 0; steps < 1000; steps++) {
+        const posterior = computePosterior(count, observations, options);
+        const mostLikely = findMostLikely(posterior);
+        if (mostLikely.probability >= options.confidence) {
+            return { index: mostLikely.index, steps };
+        }
+
+        const index = findMostInformativeIndex(posterior, options, new Set())!;
+        observations.push({ index, bad: index <= culprit && random() < options.reproductionRate });
+    }
+
+    throw new Error('Probabilistic bisect did not converge');
+}
+
+describe('Flaky bisect', () => {
+
+    test('posterior starts uniform and sums to one', () => {
+        const posterior = computePosterior(5, [], { reproductionRate: 0.5, confidence: 0.95 });
+
+        assert.deepStrictEqual(posterior, new Array(6).fill(1 / 6));
+        assert.ok(Math.abs(computePosterior(5, [{ index: 2, bad: true }, { index: 1, bad: false }], { reproductionRate: 0.5, confidence: 0.95 }).reduce((sum, probability) => sum + probability, 0) - 1) < 1e-9);
+    });
+
+    test('a reliable reproduction behaves like a binary search', () => {
+        const options = { reproductionRate: 1, confidence: 0.95 };
+
+        const posterior = computePosterior(9, [], options);
+        assert.strictEqual(findMostInformativeIndex(posterior, options, new Set()), 4);
+
+        const result = bisect(65, 17, options, createRandom(1));
+        assert.strictEqual(result.index, 17);
+        assert.ok(result.steps <= 7, `expected at most 7 steps, got ${result.steps}`);
+    });
+
+    test('finds the first bad build of a flaky issue', () => {
+        const options = { reproductionRate: 0.3, confidence: 0.95 };
+        const random = createRandom(42);
+
+        let found = 0;
+        for (let culprit = 0; culprit < 40; culprit += 4) {
+            if (bisect(40, culprit, options, random).index === culprit) {
+                found++;
+            }
+        }
+
+        assert.ok(found >= 9, `expected at least 9 of 10 runs to succeed, got ${found}`);
+    });
+
+    test('recovers from a wrong bad answer', () => {
+        const options = { reproductionRate: 0.5, confidence: 0.95 };
+
+        // Build 30 is good but was reported as bad
+        const result = bisect(40, 10, options, createRandom(7), [{ index: 30, bad: true }]);
+        assert.strictEqual(result.index, 10);
+    });
+
+    test('skipped builds are not picked', () => {
+        const options = { reproductionRate: 1, confidence: 0.95 };
+
+        const posterior = computePosterior(9, [], options);
+        assert.notStrictEqual(findMostInformativeIndex(posterior, options, new Set([4])), 4);
+        assert.strictEqual(findMostInformativeIndex(posterior, options, new Set([0, 1, 2, 3, 4, 5, 6, 7])), 8);
+        assert.strictEqual(findMostInformativeIndex(posterior, options, new Set([0, 1, 2, 3, 4, 5, 6, 7, 8])), undefined);
+    });
+
+    test('tests the newest and oldest build like a regular bisect', () => {
+        const options = { reproductionRate: 1, confidence: 0.95 };
+
+        assert.strictEqual(bisect(10, 9, options, createRandom(3)).index, 9); // all builds are bad
+        assert.strictEqual(bisect(10, -1, options, createRandom(3)).index, -1); // no build is bad
+    });
+});
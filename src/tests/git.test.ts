@@ -0,0 +1,32 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { parsePullRequest, toArea } from '../git.js';
+import { setTesting } from '../constants.js';
+
+setTesting(true);
+
+describe('Git', () => {
+
+    test('parses pull request numbers from commit subjects', () => {
+        assert.strictEqual(parsePullRequest('Merge pull request #234567 from user/branch'), 234567);
+        assert.strictEqual(parsePullRequest('Fix hover flicker in the editor (#234568)'), 234568);
+        assert.strictEqual(parsePullRequest('Fix #1234 by checking for undefined'), undefined);
+        assert.strictEqual(parsePullRequest('Merge branch \'main\' into feature'), undefined);
+    });
+
+    test('maps paths to areas', () => {
+        assert.strictEqual(toArea('src/vs/workbench/contrib/chat/browser/chatWidget.ts'), 'src/vs/workbench/contrib/chat');
+        assert.strictEqual(toArea('src/vs/workbench/services/search/common/search.ts'), 'src/vs/workbench/services/search');
+        assert.strictEqual(toArea('src/vs/editor/contrib/hover/browser/hover.ts'), 'src/vs/editor/contrib/hover');
+        assert.strictEqual(toArea('src/vs/platform/files/common/files.ts'), 'src/vs/platform/files');
+        assert.strictEqual(toArea('src/vs/workbench/workbench.common.main.ts'), 'src/vs/workbench');
+        assert.strictEqual(toArea('extensions/git/src/repository.ts'), 'extensions/git');
+        assert.strictEqual(toArea('build/gulpfile.js'), 'build');
+        assert.strictEqual(toArea('package.json'), '(root)');
+    });
+});
@@ -0,0 +1,73 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getArchiveName, parseManifest, scanDirectory } from '../local.js';
+import { BUILD_FOLDER, Flavor, Quality, setTesting } from '../constants.js';
+import { getBuildPath, getLocalBuildPath } from '../files.js';
+
+setTesting(true);
+
+const OLD = '1'.repeat(40);
+const NEW = '2'.repeat(40);
+
+describe('Local builds', () => {
+
+    test('parses manifests newest first', () => {
+        const builds = parseManifest({
+            builds: [
+                { commit: OLD, date: '2024-11-01T00:00:00Z', archive: 'old/VSCode-linux-x64.tar.gz', sha256: 'A'.repeat(64) },
+                { commit: NEW, date: '2024-11-02T00:00:00Z', archive: 'https://ci.example.com/artifacts/VSCode-darwin-arm64.zip?run=1', version: '1.96.0', executable: 'Code - OSS.app/Contents/MacOS/Electron' }
+            ]
+        }, '/manifests');
+
+        assert.deepStrictEqual(builds.map(build => build.commit), [NEW, OLD]);
+        assert.strictEqual(builds[1].archive, join('/manifests', 'old/VSCode-linux-x64.tar.gz'));
+        assert.strictEqual(builds[1].sha256, 'a'.repeat(64));
+        assert.strictEqual(builds[0].productVersion, '1.96.0');
+        assert.strictEqual(getArchiveName(builds[0].archive), 'VSCode-darwin-arm64.zip');
+    });
+
+    test('rejects invalid manifests', () => {
+        assert.throws(() => parseManifest([], '/'));
+        assert.throws(() => parseManifest({ builds: [{ commit: 'abc', date: '2024-11-01', archive: 'a.zip' }] }, '/'));
+        assert.throws(() => parseManifest({ builds: [{ commit: OLD, date: 'yesterday', archive: 'a.zip' }] }, '/'));
+        assert.throws(() => parseManifest({ builds: [{ commit: OLD, date: '2024-11-01', archive: 'a.exe' }] }, '/'));
+        assert.throws(() => parseManifest({ builds: [{ commit: OLD, date: '2024-11-01', archive: 'a.zip' }, { commit: OLD, date: '2024-11-02', archive: 'b.zip' }] }, '/'));
+    });
+
+    test('scans directories for archives with a commit in their name', async () => {
+        const folder = mkdtempSync(join(tmpdir(), 'vscode-bisect-local-'));
+        try {
+            writeFileSync(join(folder, `VSCode-linux-x64-${OLD}.tar.gz`), '');
+            writeFileSync(join(folder, `VSCode-linux-x64-${NEW}.tar.gz`), '');
+            writeFileSync(join(folder, `notes-${NEW}.txt`), '');
+            writeFileSync(join(folder, 'VSCode-linux-x64.tar.gz'), '');
+            utimesSync(join(folder, `VSCode-linux-x64-${OLD}.tar.gz`), new Date(2024, 10, 1), new Date(2024, 10, 1));
+            utimesSync(join(folder, `VSCode-linux-x64-${NEW}.tar.gz`), new Date(2024, 10, 2), new Date(2024, 10, 2));
+
+            const builds = await scanDirectory(folder);
+            assert.deepStrictEqual(builds.map(build => build.commit), [NEW, OLD]);
+            assert.strictEqual(builds[0].archive, join(folder, `VSCode-linux-x64-${NEW}.tar.gz`));
+        } finally {
+            rmSync(folder, { recursive: true });
+        }
+    });
+
+    test('keeps local builds apart from published builds of the same commit', () => {
+        const build = { commit: OLD, timestamp: Date.UTC(2024, 10, 1), archive: '/builds/VSCode-linux-x64.tar.gz' };
+
+        assert.ok(!getLocalBuildPath(build).startsWith(BUILD_FOLDER));
+        assert.notStrictEqual(getLocalBuildPath(build), getBuildPath(OLD, Quality.Insider, Flavor.Default));
+        assert.strictEqual(getLocalBuildPath(build), getLocalBuildPath({ ...build }));
+        assert.notStrictEqual(getLocalBuildPath(build), getLocalBuildPath({ ...build, archive: '/other/VSCode-linux-x64.tar.gz' }));
+        assert.notStrictEqual(getLocalBuildPath(build), getLocalBuildPath({ ...build, sha256: 'a'.repeat(64) }));
+        assert.notStrictEqual(getLocalBuildPath(build), getLocalBuildPath({ ...build, timestamp: Date.UTC(2024, 10, 2) }));
+    });
+});
@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { bisectLog } from '../log.js';
+import { CONFIG, FIND_FIX_TERMS, Flavor, Quality, Runtime, setTesting } from '../constants.js';
+
+setTesting(true);
+
+const GOOD = '1'.repeat(40);
+const BAD = '2'.repeat(40);
+const OTHER = '3'.repeat(40);
+
+describe('Bisect log', () => {
+
+    test('parses start and entries, ignoring comments', () => {
+        const log = bisectLog.parse(`
+# vscode-bisect log
+start runtime=desktop quality=insider flavor=default good=${GOOD} bad=${BAD} released-only=true exclude=${OTHER} # 2025-01-01T00:00:00.000Z
+bad ${OTHER} # 2025-01-01T00:01:00.000Z
+good ${GOOD}
+undo ${GOOD}
+skip ${BAD}
+`);
+
+        assert.deepStrictEqual(log.kind, { runtime: Runtime.DesktopLocal, quality: Quality.Insider, flavor: Flavor.Default });
+        assert.strictEqual(log.goodCommit, GOOD);
+        assert.strictEqual(log.badCommit, BAD);
+        assert.strictEqual(log.releasedOnly, true);
+        assert.deepStrictEqual(log.excludeCommits, [OTHER]);
+        assert.strictEqual(log.terms, undefined);
+        assert.strictEqual(log.flaky, undefined);
+        assert.strictEqual(log.nextQuality, undefined);
+        assert.deepStrictEqual(log.entries.map(entry => entry.verdict), ['bad', 'good', 'undo', 'skip']);
+    });
+
+    test('a new start line begins a new session', () => {
+        const log = bisectLog.parse(`
+start runtime=desktop quality=insider flavor=default good=${GOOD} bad=${BAD} released-only=false
+bad ${OTHER}
+start runtime=web-local quality=stable flavor=default good=${GOOD} bad=${OTHER} released-only=false
+good ${GOOD}
+`);
+
+        assert.strictEqual(log.kind.runtime, Runtime.WebLocal);
+        assert.strictEqual(log.badCommit, OTHER);
+        assert.deepStrictEqual(log.entries, [{ verdict: 'good', commit: GOOD }]);
+    });
+
+    test('rejects invalid logs', () => {
+        assert.throws(() => bisectLog.parse(`good ${GOOD}`));
+        assert.throws(() => bisectLog.parse(`start runtime=desktop quality=insider flavor=default good=${GOOD} bad=${BAD}\nmaybe ${GOOD}`));
+        assert.throws(() => bisectLog.parse(`start runtime=desktop quality=insider flavor=default good=${GOOD} bad=${BAD}\ngood 1234`));
+        assert.throws(() => bisectLog.parse(`start runtime=desktop quality=nightly flavor=default good=${GOOD} bad=${BAD}`));
+    });
+
+    test('written logs can be parsed again', async () => {
+        const folder = mkdtempSync(join(tmpdir(), 'vscode-bisect-log-'));
+        const original = CONFIG.log;
+        try {
+            CONFIG.log = join(folder, 'bisect.log');
+
+            const session = { kind: { runtime: Runtime.DesktopLocal, quality: Quality.Stable, flavor: Flavor.Cli }, goodCommit: GOOD, badCommit: BAD, releasedOnly: false, excludeCommits: [], terms: FIND_FIX_TERMS, flaky: { reproductionRate: 0.3, confidence: 0.9 }, nextQuality: Quality.Insider };
+            await bisectLog.writeSession(session, [{ verdict: 'bad', commit: OTHER }], 'start');
+            await bisectLog.writeEntry({ verdict: 'good', commit: GOOD });
+            await bisectLog.writeSession(session, [], 'resume');
+
+            const log = bisectLog.parse(readFileSync(CONFIG.log).toString());
+            assert.deepStrictEqual(log, { ...session, entries: [{ verdict: 'bad', commit: OTHER }, { verdict: 'good', commit: GOOD }] });
+        } finally {
+            CONFIG.log = original;
+            rmSync(folder, { recursive: true });
+        }
+    });
+});
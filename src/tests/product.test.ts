@@ -0,0 +1,90 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CONFIG, Quality, qualityFromString, setTesting, VSCODE_DEV_URL } from '../constants.js';
+import { CODE_OSS_PRODUCT, getProductQuality, loadProduct, parseProduct, VSCODE_PRODUCT } from '../product.js';
+
+setTesting(true);
+
+describe('Product', () => {
+
+    test('loads built-in products', async () => {
+        assert.strictEqual(await loadProduct('vscode'), VSCODE_PRODUCT);
+        assert.strictEqual(await loadProduct('code-oss'), CODE_OSS_PRODUCT);
+        assert.strictEqual(CODE_OSS_PRODUCT.updateUrl, undefined);
+        assert.strictEqual(CODE_OSS_PRODUCT.qualities.insider.applicationName, 'code-oss');
+    });
+
+    test('merges a product file over the product it extends', async () => {
+        const folder = mkdtempSync(join(tmpdir(), 'vscode-bisect-product-'));
+        try {
+            writeFileSync(join(folder, 'product.json'), JSON.stringify({ id: 'my-fork', updateUrl: 'https://update.example.com', archivePrefix: 'MyFork', qualities: { insider: { applicationName: 'my-fork-insiders' } } }));
+
+            const product = await loadProduct(join(folder, 'product.json'));
+            assert.strictEqual(product.id, 'my-fork');
+            assert.strictEqual(product.updateUrl, 'https://update.example.com');
+            assert.strictEqual(product.archivePrefix, 'MyFork');
+            assert.strictEqual(product.serverArchivePrefix, VSCODE_PRODUCT.serverArchivePrefix);
+            assert.strictEqual(product.qualities.insider.applicationName, 'my-fork-insiders');
+            assert.strictEqual(product.qualities.insider.nameShort, VSCODE_PRODUCT.qualities.insider.nameShort);
+            assert.deepStrictEqual(product.qualities.stable, VSCODE_PRODUCT.qualities.stable);
+
+            writeFileSync(join(folder, 'invalid.json'), '{');
+            await assert.rejects(loadProduct(join(folder, 'invalid.json')));
+            await assert.rejects(loadProduct(join(folder, 'missing.json')));
+        } finally {
+            rmSync(folder, { recursive: true });
+        }
+    });
+
+    test('validates product files', () => {
+        assert.strictEqual(parseProduct({ id: 'oss-fork', extends: 'code-oss' }).qualities.stable.nameShort, 'Code - OSS');
+
+        assert.throws(() => parseProduct({}));
+        assert.throws(() => parseProduct({ id: 'My Fork' }));
+        assert.throws(() => parseProduct({ id: 'my-fork', extends: 'unknown' }));
+        assert.throws(() => parseProduct({ id: 'my-fork', qualities: { insider: { applicationName: 1 as unknown as string } } }));
+    });
+
+    test('supports qualities defined by the product', () => {
+        assert.strictEqual(qualityFromString(undefined), Quality.Insider);
+        assert.strictEqual(qualityFromString('exploration'), Quality.Exploration);
+        assert.strictEqual(getProductQuality(VSCODE_PRODUCT, Quality.Exploration).versionSuffix, '-exploration');
+        assert.throws(() => qualityFromString('nightly'));
+        assert.throws(() => getProductQuality(CODE_OSS_PRODUCT, Quality.Exploration));
+
+        const product = parseProduct({ id: 'my-fork', qualities: { nightly: { versionSuffix: '-nightly', applicationName: 'my-fork-nightly' } } });
+        assert.strictEqual(getProductQuality(product, 'nightly').updateName, 'nightly');
+        assert.strictEqual(getProductQuality(product, 'nightly').applicationName, 'my-fork-nightly');
+        assert.strictEqual(getProductQuality(product, 'nightly').nameShort, VSCODE_PRODUCT.qualities.insider.nameShort);
+        assert.strictEqual(getProductQuality(product, 'nightly').webUrl, undefined);
+        assert.throws(() => parseProduct({ id: 'my-fork', qualities: { Nightly: {} } }));
+
+        try {
+            CONFIG.product = product;
+            assert.strictEqual(qualityFromString('nightly'), 'nightly');
+        } finally {
+            CONFIG.product = VSCODE_PRODUCT;
+        }
+    });
+
+    test('builds web URLs from the product', () => {
+        const commit = '807bf598bea406dcb272a9fced54697986e87768';
+        try {
+            assert.strictEqual(VSCODE_DEV_URL(commit, Quality.Insider), `https://insiders.vscode.dev/?vscode-version=${commit}`);
+            assert.strictEqual(VSCODE_DEV_URL(commit, Quality.Stable), `https://vscode.dev/?vscode-version=${commit}`);
+
+            CONFIG.product = CODE_OSS_PRODUCT;
+            assert.throws(() => VSCODE_DEV_URL(commit, Quality.Insider));
+        } finally {
+            CONFIG.product = VSCODE_PRODUCT;
+        }
+    });
+});
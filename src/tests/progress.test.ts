@@ -0,0 +1,71 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { progressView } from '../progress.js';
+import { IBuild } from '../builds.js';
+import { Flavor, Quality, Runtime, setTesting } from '../constants.js';
+
+setTesting(true);
+
+function createBuilds(count: number): IBuild[] {
+    return Array.from({ length: count }, (_, i) => ({ commit: i.toString(16).padStart(40, '0'), runtime: Runtime.DesktopLocal, quality: Quality.Insider, flavor: Flavor.Default }));
+}
+
+function stripColors(line: string): string {
+    return line.replace(/\x1b\[[0-9;]*m/g, '');
+}
+
+function findRow(lines: string[], label: string): string {
+    const line = lines.map(stripColors).find(line => line.trimStart().startsWith(label));
+    assert.ok(line, `expected a ${label} row`);
+
+    return line.trimStart().substring(label.length).trim();
+}
+
+describe('Progress view', () => {
+
+    test('shows the range as a timeline from oldest to newest', () => {
+        const lines = progressView.format({
+            builds: createBuilds(10),
+            badIndex: 2,
+            goodIndex: 8,
+            currentIndex: 5,
+            skipped: [4],
+            excludedCount: 1,
+            answers: [{ commit: createBuilds(10)[2].commit, verdict: 'bad' }, { commit: createBuilds(10)[8].commit, verdict: 'good' }, { commit: createBuilds(10)[4].commit, verdict: 'skip' }],
+            info: { productVersion: '1.96.0-insider', timestamp: Date.UTC(2024, 10, 1) }
+        });
+
+        assert.strictEqual(findRow(lines, 'timeline'), 'oldest ●●··▲x·●●● newest');
+        assert.ok(findRow(lines, 'range').startsWith(`good ${createBuilds(10)[8].commit.substring(0, 10)} … bad ${createBuilds(10)[2].commit.substring(0, 10)}`));
+        assert.ok(findRow(lines, 'range').includes('4 of 10 builds left, roughly 3 steps'));
+        assert.ok(findRow(lines, 'current').includes('1.96.0-insider'));
+        assert.strictEqual(findRow(lines, 'skipped'), '1 skipped, 1 excluded');
+        assert.strictEqual(findRow(lines, 'answers'), '3 so far');
+    });
+
+    test('condenses large ranges and recent answers', () => {
+        const builds = createBuilds(500);
+        const lines = progressView.format({
+            builds,
+            badIndex: -1,
+            goodIndex: 500,
+            currentIndex: 250,
+            skipped: [],
+            excludedCount: 0,
+            answers: builds.slice(0, 20).map(build => ({ commit: build.commit, verdict: 'bad' as const })),
+            confidence: 0.42
+        });
+
+        const timeline = findRow(lines, 'timeline').replace(/^oldest | newest$/g, '');
+        assert.strictEqual(timeline.length, 40);
+        assert.strictEqual(timeline.split('▲').length, 2);
+        assert.ok(findRow(lines, 'range').startsWith(`untested ${builds[499].commit.substring(0, 10)} … untested ${builds[0].commit.substring(0, 10)}`));
+        assert.ok(findRow(lines, 'range').includes('42.0% confidence so far'));
+        assert.ok(lines.map(stripColors).some(line => line.includes('… 12 more')));
+    });
+});
@@ -0,0 +1,67 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { bisectReport, IBisectReport } from '../report.js';
+import { DEFAULT_TERMS, Flavor, Quality, Runtime, setTesting } from '../constants.js';
+
+setTesting(true);
+
+const GOOD = '1'.repeat(40);
+const BAD = '2'.repeat(40);
+const SKIPPED = '3'.repeat(40);
+const EXCLUDED = '4'.repeat(40);
+
+const REPORT: IBisectReport = {
+    kind: { runtime: Runtime.DesktopLocal, quality: Quality.Insider, flavor: Flavor.Default },
+    platform: 'linux-x64',
+    terms: DEFAULT_TERMS,
+    badBuild: { commit: BAD, productVersion: '1.96.0-insider' },
+    goodBuild: { commit: GOOD },
+    steps: 3,
+    tested: [{ commit: BAD, verdict: 'bad' }, { commit: SKIPPED, verdict: 'skip' }, { commit: GOOD, verdict: 'good' }],
+    skipped: [SKIPPED],
+    excluded: [EXCLUDED],
+    compareUrl: `https://github.com/microsoft/vscode/compare/${GOOD}...${BAD}`,
+    changedAreas: [{ area: 'src/vs/workbench/contrib/chat', linesChanged: 120, commits: 2 }],
+    args: ['--disable-extensions']
+};
+
+describe('Bisect report', () => {
+
+    test('formats Markdown', () => {
+        const markdown = bisectReport.formatMarkdown(REPORT);
+
+        assert.ok(markdown.includes(`\`${BAD}\` (1.96.0-insider) is the first bad build after \`${GOOD}\`.`));
+        assert.ok(markdown.includes(`Changes: ${REPORT.compareUrl}`));
+        assert.ok(markdown.includes('| Arguments | `--disable-extensions` |'));
+        assert.ok(markdown.includes(`| 2 | \`${SKIPPED}\` | skip |`));
+        assert.ok(markdown.includes(`### Excluded Builds\n\n- \`${EXCLUDED}\``));
+        assert.ok(markdown.includes('| `src/vs/workbench/contrib/chat` | 120 | 2 |'));
+    });
+
+    test('escapes table cells in Markdown', () => {
+        const markdown = bisectReport.formatMarkdown({ ...REPORT, args: ['--grep', 'a|b', '--message', 'first\nsecond'] });
+
+        assert.ok(markdown.includes('| Arguments | `--grep a\\|b --message first second` |'));
+    });
+
+    test('writes JSON or Markdown depending on the extension', async () => {
+        const folder = mkdtempSync(join(tmpdir(), 'vscode-bisect-report-'));
+        try {
+            await bisectReport.write(join(folder, 'report.json'), REPORT);
+            assert.deepStrictEqual(JSON.parse(readFileSync(join(folder, 'report.json')).toString()), REPORT);
+
+            await bisectReport.write(join(folder, 'nested', 'report.md'), REPORT);
+            assert.ok(readFileSync(join(folder, 'nested', 'report.md')).toString().startsWith('## Bisect Result'));
+        } finally {
+            rmSync(folder, { recursive: true });
+        }
+    });
+});
@@ -0,0 +1,47 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { setTesting } from '../constants.js';
+import { cloneState, createState, getNextIndices, nextState } from '../state.js';
+
+setTesting(true);
+
+describe('Bisect state', () => {
+
+    test('finds the builds to try next for either answer', () => {
+        const state = createState(100);
+        assert.strictEqual(state.currentIndex, 49);
+        assert.deepStrictEqual(getNextIndices(state), [24, 74]);
+
+        for (const verdict of ['good', 'bad'] as const) {
+            const next = cloneState(state);
+            nextState(next, verdict);
+            assert.ok(getNextIndices(state).includes(next.currentIndex));
+        }
+
+        // The state itself is not changed
+        assert.strictEqual(state.currentIndex, 49);
+        assert.strictEqual(state.goodIndex, 100);
+        assert.strictEqual(state.badIndex, -1);
+    });
+
+    test('finds no builds to try next when bisecting is done after the current build', () => {
+        assert.deepStrictEqual(getNextIndices(createState(1)), []);
+
+        const state = createState(1);
+        nextState(state, 'good');
+        assert.deepStrictEqual(getNextIndices(state), []);
+    });
+
+    test('finds the builds to try next when bisecting flaky issues', () => {
+        const state = createState(20, { reproductionRate: 0.5, confidence: 0.9 });
+        const indices = getNextIndices(state);
+
+        assert.ok(indices.length > 0 && indices.length <= 2);
+        assert.ok(indices.every(index => index >= 0 && index < 20));
+    });
+});